@@ -1,5 +1,6 @@
 import { chromium, Browser, BrowserContext, Page } from "playwright";
 import { saveAuthData } from './storage.js';
+import { loadBrowserProfile, getLaunchOptions, getContextOptions } from '../browser/browser-profile.js';
 
 export interface AuthBrowserSession {
   browser: Browser;
@@ -9,10 +10,12 @@ export interface AuthBrowserSession {
 
 /**
  * Launch browser for LinkedIn authentication
+ * Uses the same browser profile as searches, so LinkedIn sees one consistent browser
  */
 export const launchAuthBrowser = async (): Promise<AuthBrowserSession> => {
-  const browser = await chromium.launch({ headless: false });
-  const context = await browser.newContext();
+  const profile = loadBrowserProfile();
+  const browser = await chromium.launch(getLaunchOptions(profile, false));
+  const context = await browser.newContext(getContextOptions(profile));
   const page = await context.newPage();
 
   // Set generous timeouts for auth flow
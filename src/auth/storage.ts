@@ -7,24 +7,19 @@ export interface AuthData {
   localStorage: any[];
   timestamp: number;
   lastValidated?: number;
+  invalidatedAt?: number;  // Set when scraping hit a login wall/checkpoint; cleared by a new login
+  invalidReason?: string;
 }
 
 /**
- * Save authentication data to system storage
+ * Write authentication data to system storage (temp file, then rename for atomic operation)
  */
-export const saveAuthData = async (storageState: any): Promise<void> => {
+const writeAuthFile = (authData: AuthData): void => {
   ensureAuthDirectory();
   
-  const authData: AuthData = {
-    ...storageState,
-    timestamp: Date.now(),
-    lastValidated: Date.now()
-  };
-  
   const authPath = getSystemAuthPath();
   const tempPath = getTempAuthPath();
   
-  // Write to temp file first, then rename for atomic operation
   try {
     fs.writeFileSync(tempPath, JSON.stringify(authData, null, 2));
     fs.renameSync(tempPath, authPath);
@@ -37,6 +32,30 @@ export const saveAuthData = async (storageState: any): Promise<void> => {
   }
 };
 
+/**
+ * Save authentication data to system storage
+ */
+export const saveAuthData = async (storageState: any): Promise<void> => {
+  const authData: AuthData = {
+    ...storageState,
+    timestamp: Date.now(),
+    lastValidated: Date.now()
+  };
+  
+  writeAuthFile(authData);
+};
+
+/**
+ * Mark the stored authentication as invalid (LinkedIn no longer accepts the session)
+ * The cookies are kept; the data stays invalid until the next successful login
+ */
+export const markAuthInvalid = async (reason: string): Promise<void> => {
+  const authData = await loadAuthData();
+  if (!authData) return;
+  
+  writeAuthFile({ ...authData, invalidatedAt: Date.now(), invalidReason: reason });
+};
+
 /**
  * Load authentication data from system storage
  */
@@ -80,6 +99,11 @@ export const hasAuthData = async (): Promise<boolean> => {
 export const isAuthDataValid = async (authData: AuthData | null): Promise<boolean> => {
   if (!authData) return false;
   
+  // Scraping found the session logged out or challenged
+  if (authData.invalidatedAt) {
+    return false;
+  }
+  
   // Check required structure
   if (!authData.cookies || !Array.isArray(authData.cookies)) {
     return false;
@@ -110,6 +134,8 @@ export const getAuthStatus = async (): Promise<{
   createdAt?: Date;
   lastValidated?: Date;
   age?: string;
+  invalidatedAt?: Date;
+  invalidReason?: string;
 }> => {
   const authData = await loadAuthData();
   const hasAuth = !!authData;
@@ -130,6 +156,8 @@ export const getAuthStatus = async (): Promise<{
     isValid,
     createdAt,
     lastValidated,
-    age
+    age,
+    invalidatedAt: authData.invalidatedAt ? new Date(authData.invalidatedAt) : undefined,
+    invalidReason: authData.invalidReason
   };
 };
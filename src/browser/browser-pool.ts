@@ -0,0 +1,184 @@
+/**
+ * Warm browser pool
+ * Keeps one Chromium with an authenticated context alive between tool calls, so a search
+ * doesn't pay for a browser launch and loading the auth state every time
+ */
+
+import { chromium, Browser, BrowserContext } from 'playwright';
+import type { AuthData } from '../auth/storage.js';
+import { loadBrowserProfile, getLaunchOptions, getContextOptions, BrowserProfile } from './browser-profile.js';
+
+// How long an unused browser stays open (LINKEDIN_MCP_BROWSER_IDLE_MINUTES, 0 = close after every call)
+const DEFAULT_IDLE_MINUTES = 5;
+
+interface PooledBrowser {
+  browser: Browser;
+  context: BrowserContext;
+  headless: boolean;
+  authTimestamp: number; // AuthData.timestamp the context was created from
+  profileKey: string;    // Browser profile the browser was launched with (JSON)
+}
+
+// Module-level state tracking for singleton pattern
+let pooled: PooledBrowser | null = null;
+let launching: Promise<PooledBrowser> | null = null;
+let leases = 0;
+let idleTimer: NodeJS.Timeout | null = null;
+
+/**
+ * Idle timeout from the environment
+ */
+const getIdleTimeoutMs = (): number => {
+  const minutes = Number(process.env.LINKEDIN_MCP_BROWSER_IDLE_MINUTES ?? DEFAULT_IDLE_MINUTES);
+  return Number.isFinite(minutes) && minutes > 0 ? minutes * 60 * 1000 : 0;
+};
+
+/**
+ * Launch a browser and an authenticated context with the browser profile applied
+ */
+const launchBrowser = async (headless: boolean, authData: AuthData, profile: BrowserProfile): Promise<PooledBrowser> => {
+  const browser = await chromium.launch(getLaunchOptions(profile, headless));
+  try {
+    const context = await browser.newContext({ ...getContextOptions(profile), storageState: authData });
+    return { browser, context, headless, authTimestamp: authData.timestamp, profileKey: JSON.stringify(profile) };
+  } catch (error) {
+    await browser.close().catch(() => {});
+    throw error;
+  }
+};
+
+/**
+ * Whether the pooled browser can serve a call with these settings
+ * A new login (different auth timestamp), a changed browser profile or a crashed browser needs a fresh one
+ */
+const canReuse = (entry: PooledBrowser, headless: boolean, authData: AuthData, profile: BrowserProfile): boolean => {
+  return entry.browser.isConnected() &&
+    entry.headless === headless &&
+    entry.authTimestamp === authData.timestamp &&
+    entry.profileKey === JSON.stringify(profile);
+};
+
+/**
+ * Close the pooled browser (no-op when none is open)
+ */
+const closePooled = async (): Promise<void> => {
+  if (idleTimer) {
+    clearTimeout(idleTimer);
+    idleTimer = null;
+  }
+  const entry = pooled;
+  pooled = null;
+  if (entry) {
+    await entry.browser.close().catch(() => {});
+  }
+};
+
+/**
+ * Take a lease on the pooled browser (it stays open until every lease is released)
+ * Must run in the same step that hands the entry out, so no other call sees it unleased
+ */
+const lease = (entry: PooledBrowser): PooledBrowser => {
+  if (idleTimer) {
+    clearTimeout(idleTimer);
+    idleTimer = null;
+  }
+  leases++;
+  return entry;
+};
+
+/**
+ * Lease the pooled browser, launching (or relaunching) it when needed
+ * Concurrent callers share one launch. Returns null when the pooled browser is leased with
+ * other settings: it can't be closed under its users, so the caller needs a dedicated browser.
+ */
+const getPooled = async (headless: boolean, authData: AuthData, profile: BrowserProfile): Promise<PooledBrowser | null> => {
+  while (launching) {
+    await launching.catch(() => {});
+  }
+  if (pooled && canReuse(pooled, headless, authData, profile)) {
+    return lease(pooled);
+  }
+  if (pooled && leases > 0) {
+    return null;
+  }
+
+  launching = (async () => {
+    await closePooled();
+    const entry = await launchBrowser(headless, authData, profile);
+    // Crashed or closed from outside: forget it, the next call launches a new one
+    const forget = () => {
+      if (pooled === entry) {
+        pooled = null;
+        leases = 0;
+        void entry.browser.close().catch(() => {});
+      }
+    };
+    entry.browser.on('disconnected', forget);
+    entry.context.on('close', forget);
+    pooled = entry;
+    return lease(entry);
+  })();
+  try {
+    return await launching;
+  } finally {
+    launching = null;
+  }
+};
+
+/**
+ * Whether a call with these settings would reuse an open browser
+ */
+export const isBrowserWarm = (headless: boolean, authData: AuthData): boolean => {
+  return !!pooled && canReuse(pooled, headless, authData, loadBrowserProfile());
+};
+
+/**
+ * Run `work` in an authenticated browser context
+ *
+ * The pooled context is reused across calls and closed after the idle timeout. While it is
+ * busy with other settings (e.g. a headless scheduled search during a visible one), the
+ * call gets its own browser, closed when `work` settles. Pages opened by `work` must be
+ * closed by it.
+ * @throws Error if the browser profile config is invalid
+ */
+export const withBrowserContext = async <T>(
+  headless: boolean,
+  authData: AuthData,
+  work: (context: BrowserContext) => Promise<T>
+): Promise<T> => {
+  const idleTimeoutMs = getIdleTimeoutMs();
+  const profile = loadBrowserProfile();
+
+  const entry = idleTimeoutMs > 0 ? await getPooled(headless, authData, profile) : null;
+  if (!entry) {
+    const dedicated = await launchBrowser(headless, authData, profile);
+    try {
+      return await work(dedicated.context);
+    } finally {
+      await dedicated.browser.close().catch(() => {});
+    }
+  }
+
+  try {
+    return await work(entry.context);
+  } finally {
+    if (pooled === entry) {
+      leases = Math.max(0, leases - 1);
+      if (leases === 0) {
+        idleTimer = setTimeout(() => { void closePooled(); }, idleTimeoutMs);
+        idleTimer.unref();
+      }
+    }
+  }
+};
+
+/**
+ * Close the pooled browser now (server shutdown)
+ */
+export const shutdownBrowserPool = async (): Promise<void> => {
+  if (launching) {
+    await launching.catch(() => {});
+  }
+  leases = 0;
+  await closePooled();
+};
@@ -0,0 +1,110 @@
+/**
+ * Browser profile
+ * Proxy, user agent, locale, timezone, viewport and extra launch args for every browser that
+ * talks to LinkedIn (the login browser and the scraping browser), read from browser-profile.json
+ */
+
+import fs from 'fs';
+import type { LaunchOptions, BrowserContextOptions } from 'playwright';
+import { getBrowserProfilePath } from '../utils/paths.js';
+
+export interface BrowserProfile {
+  proxy?: {
+    server: string;     // e.g. "http://proxy.corp:8080" or "socks5://127.0.0.1:1080"
+    username?: string;
+    password?: string;
+    bypass?: string;    // Comma-separated domains that skip the proxy
+  };
+  userAgent?: string;
+  locale?: string;      // e.g. "en-US"
+  timezoneId?: string;  // e.g. "Europe/Berlin"
+  viewport?: { width: number; height: number };
+  args?: string[];      // Extra Chromium command line args
+}
+
+/**
+ * Check one optional string setting
+ */
+const checkString = (value: unknown, name: string): void => {
+  if (value !== undefined && (typeof value !== 'string' || value.trim() === '')) {
+    throw new Error(`${name} must be a non-empty string`);
+  }
+};
+
+/**
+ * Check the parsed config file and return it as a profile
+ * @throws Error naming the first invalid setting
+ */
+const validateProfile = (data: unknown): BrowserProfile => {
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    throw new Error('expected a JSON object');
+  }
+  const profile = data as BrowserProfile;
+
+  if (profile.proxy !== undefined) {
+    if (!profile.proxy || typeof profile.proxy !== 'object') {
+      throw new Error('proxy must be an object with a server');
+    }
+    checkString(profile.proxy.server, 'proxy.server');
+    if (!profile.proxy.server) {
+      throw new Error('proxy.server is required');
+    }
+    checkString(profile.proxy.username, 'proxy.username');
+    checkString(profile.proxy.password, 'proxy.password');
+    checkString(profile.proxy.bypass, 'proxy.bypass');
+  }
+
+  checkString(profile.userAgent, 'userAgent');
+  checkString(profile.locale, 'locale');
+  checkString(profile.timezoneId, 'timezoneId');
+
+  if (profile.viewport !== undefined) {
+    const { width, height } = profile.viewport ?? {};
+    if (!Number.isInteger(width) || !Number.isInteger(height) || width < 1 || height < 1) {
+      throw new Error('viewport must be { "width": <pixels>, "height": <pixels> }');
+    }
+  }
+
+  if (profile.args !== undefined && (!Array.isArray(profile.args) || !profile.args.every(arg => typeof arg === 'string'))) {
+    throw new Error('args must be a list of strings');
+  }
+
+  return profile;
+};
+
+/**
+ * Load the browser profile (empty, i.e. Playwright defaults, when there is no config file)
+ * An invalid file is an error rather than ignored, so a search never bypasses a configured proxy
+ * @throws Error if the config file can't be parsed or has an invalid setting
+ */
+export const loadBrowserProfile = (): BrowserProfile => {
+  const profilePath = getBrowserProfilePath();
+  if (!fs.existsSync(profilePath)) {
+    return {};
+  }
+
+  try {
+    return validateProfile(JSON.parse(fs.readFileSync(profilePath, 'utf-8')));
+  } catch (error) {
+    throw new Error(`Invalid browser profile ${profilePath}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+};
+
+/**
+ * chromium.launch() options for a profile
+ */
+export const getLaunchOptions = (profile: BrowserProfile, headless: boolean): LaunchOptions => ({
+  headless,
+  ...(profile.proxy && { proxy: profile.proxy }),
+  ...(profile.args && { args: profile.args })
+});
+
+/**
+ * browser.newContext() options for a profile (storage state is added by the caller)
+ */
+export const getContextOptions = (profile: BrowserProfile): BrowserContextOptions => ({
+  ...(profile.userAgent && { userAgent: profile.userAgent }),
+  ...(profile.locale && { locale: profile.locale }),
+  ...(profile.timezoneId && { timezoneId: profile.timezoneId }),
+  ...(profile.viewport && { viewport: profile.viewport })
+});
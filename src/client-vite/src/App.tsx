@@ -1,11 +1,15 @@
 import { useState, useEffect, useMemo, useRef, useCallback } from 'react'
 import { Database } from 'lucide-react'
-import { Post } from './types'
+import { Post, SearchRun, SavedSearch, SchedulerStatus, WatchedEntity } from './types'
 import { TableView } from './components/TableView'
 import { FilterView } from './components/FilterView'
+import { SavedSearchesView } from './components/SavedSearchesView'
 import { LinkedInPostCard } from './components/LinkedInPostCard'
+import { ScreenshotGallery } from './components/ScreenshotGallery'
+import { AddPostByUrl } from './components/AddPostByUrl'
+import { FollowingView } from './components/FollowingView'
 
-type TabType = 'posts' | 'db'
+type TabType = 'posts' | 'following' | 'screenshots' | 'db'
 export type AppliedFilterType = 'all' | 'applied' | 'not-applied'
 export type SavedFilterType = 'all' | 'saved' | 'not-saved'
 
@@ -16,8 +20,25 @@ interface FilterState {
   startDate: string | null
   endDate: string | null
   idFilter: string
+  authorFilter: string
+  runFilter: number | null
 }
 
+export interface AuthorOption {
+  value: string // profile URL, or name for posts without a captured profile
+  label: string
+  count: number
+}
+
+/**
+ * Key used to group posts by author: profile URL when known, otherwise the name
+ */
+const getAuthorKey = (post: Post): string =>
+  normalizeAuthorKey(post.author_profile_url || post.author_name || '')
+
+const normalizeAuthorKey = (value: string): string =>
+  value.trim().toLowerCase().replace(/[?#].*$/, '').replace(/\/+$/, '')
+
 function App() {
   const [posts, setPosts] = useState<Post[]>([])
   const [loading, setLoading] = useState(true)
@@ -31,6 +52,13 @@ function App() {
   const [startDate, setStartDate] = useState<Date | null>(null)
   const [endDate, setEndDate] = useState<Date | null>(null)
   const [idFilter, setIdFilter] = useState('')
+  const [authorFilter, setAuthorFilter] = useState('')
+  const [runFilter, setRunFilter] = useState<number | null>(null)
+  const [searchRuns, setSearchRuns] = useState<SearchRun[]>([])
+  const [savedSearches, setSavedSearches] = useState<SavedSearch[]>([])
+  const [scheduler, setScheduler] = useState<SchedulerStatus | null>(null)
+  const [watchList, setWatchList] = useState<WatchedEntity[]>([])
+  const [watchChecking, setWatchChecking] = useState(false)
   const [loadingStates, setLoadingStates] = useState<Record<number, boolean>>({})
   const [cardErrorMessage, setCardErrorMessage] = useState<string | null>(null)
   
@@ -152,12 +180,36 @@ function App() {
           keywords.add(trimmedKw)
         }
       })
+      // Later queries that found the post again
+      post.search_queries?.forEach(query => keywords.add(query))
     })
     return Array.from(keywords).sort((a, b) => 
       a.toLowerCase().localeCompare(b.toLowerCase())
     )
   }, [posts])
 
+  // Memoize authors with their post counts (most active first)
+  const uniqueAuthors = useMemo(() => {
+    const authors = new Map<string, AuthorOption>()
+    posts.forEach(post => {
+      const key = getAuthorKey(post)
+      if (!key) return
+      const existing = authors.get(key)
+      if (existing) {
+        existing.count++
+      } else {
+        authors.set(key, {
+          value: post.author_profile_url || post.author_name,
+          label: post.author_name || post.author_profile_url || 'Unknown Author',
+          count: 1
+        })
+      }
+    })
+    return Array.from(authors.values()).sort((a, b) =>
+      b.count - a.count || a.label.toLowerCase().localeCompare(b.label.toLowerCase())
+    )
+  }, [posts])
+
   // Fetch posts from API
   const fetchPosts = async () => {
     try {
@@ -168,6 +220,28 @@ function App() {
       const data = await response.json()
       setPosts(data)
       setError(null)
+      
+      // Search runs only feed the run filter, so failures are ignored
+      const runsResponse = await fetch('/api/search-runs').catch(() => null)
+      if (runsResponse?.ok) {
+        setSearchRuns(await runsResponse.json())
+      }
+
+      // Saved searches are informational, so failures are ignored too
+      const savedResponse = await fetch('/api/saved-searches').catch(() => null)
+      if (savedResponse?.ok) {
+        const saved = await savedResponse.json()
+        setSavedSearches(saved.searches)
+        setScheduler(saved.scheduler)
+      }
+
+      // The watch list only labels the Following tab, so failures are ignored as well
+      const watchResponse = await fetch('/api/watch-list').catch(() => null)
+      if (watchResponse?.ok) {
+        const watch = await watchResponse.json()
+        setWatchList(watch.entities)
+        setWatchChecking(watch.checking)
+      }
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Unknown error')
     } finally {
@@ -202,6 +276,8 @@ function App() {
         setStartDate(state.startDate ? new Date(state.startDate) : null)
         setEndDate(state.endDate ? new Date(state.endDate) : null)
         setIdFilter(state.idFilter)
+        setAuthorFilter(state.authorFilter ?? '')
+        setRunFilter(state.runFilter ?? null)
         
         // Reset sync flag after a short delay
         setTimeout(() => {
@@ -279,6 +355,16 @@ function App() {
     syncFilterStateToAPI({ idFilter: value })
   }, [syncFilterStateToAPI])
 
+  const setAuthorFilterAndSync = useCallback((value: string) => {
+    setAuthorFilter(value)
+    syncFilterStateToAPI({ authorFilter: value })
+  }, [syncFilterStateToAPI])
+
+  const setRunFilterAndSync = useCallback((value: number | null) => {
+    setRunFilter(value)
+    syncFilterStateToAPI({ runFilter: value })
+  }, [syncFilterStateToAPI])
+
   // Apply filters
   const filteredPosts = posts.filter(post => {
     // Keyword filter
@@ -287,7 +373,8 @@ function App() {
       post.search_keywords
         .split(',')
         .map(kw => kw.trim())
-        .includes(keywordFilter)
+        .includes(keywordFilter) ||
+      (post.search_queries ?? []).includes(keywordFilter)
 
     // Applied status filter
     const appliedMatch =
@@ -328,9 +415,37 @@ function App() {
       return ids.includes(post.id)
     })()
 
-    return keywordMatch && appliedMatch && savedMatch && dateMatch && idMatch
+    // Author filter (profile URL or name)
+    const authorMatch =
+      authorFilter.trim() === '' ||
+      getAuthorKey(post) === normalizeAuthorKey(authorFilter) ||
+      normalizeAuthorKey(post.author_name || '') === normalizeAuthorKey(authorFilter)
+
+    // Search run filter
+    const runMatch =
+      runFilter === null || (post.search_runs ?? []).includes(runFilter)
+
+    return keywordMatch && appliedMatch && savedMatch && dateMatch && idMatch && authorMatch && runMatch
   })
 
+  const renderPostCard = (post: Post) => (
+    <LinkedInPostCard
+      key={post.id}
+      post={post}
+      onToggleApplied={handleToggleApplied}
+      onToggleSaved={handleToggleSaved}
+      onDelete={handleDelete}
+      onGoToPost={p =>
+        window.open(
+          p.post_link,
+          '_blank',
+          'noopener,noreferrer'
+        )
+      }
+      isLoading={loadingStates[post.id]}
+    />
+  )
+
   return (
     <div className="bg-slate-100 min-h-screen font-sans">
       <div className="container mx-auto p-4 sm:p-6 lg:p-8">
@@ -365,6 +480,26 @@ function App() {
                 >
                   📝 Posts
                 </button>
+                <button
+                  className={`px-4 py-2 text-sm font-medium rounded-md transition-colors ${
+                    activeTab === 'following'
+                      ? 'bg-blue-500 text-white'
+                      : 'text-slate-600 hover:bg-slate-100'
+                  }`}
+                  onClick={() => setActiveTab('following')}
+                >
+                  👀 Following
+                </button>
+                <button
+                  className={`px-4 py-2 text-sm font-medium rounded-md transition-colors ${
+                    activeTab === 'screenshots'
+                      ? 'bg-blue-500 text-white'
+                      : 'text-slate-600 hover:bg-slate-100'
+                  }`}
+                  onClick={() => setActiveTab('screenshots')}
+                >
+                  📸 Screenshots
+                </button>
                 <button
                   className={`px-4 py-2 text-sm font-medium rounded-md transition-colors flex items-center gap-2 ${
                     activeTab === 'db'
@@ -401,8 +536,26 @@ function App() {
               setEndDate={setEndDateAndSync}
               idFilter={idFilter}
               setIdFilter={setIdFilterAndSync}
+              authorFilter={authorFilter}
+              setAuthorFilter={setAuthorFilterAndSync}
+              uniqueAuthors={uniqueAuthors}
+              runFilter={runFilter}
+              setRunFilter={setRunFilterAndSync}
+              searchRuns={searchRuns}
             />
 
+            {/* Saved searches and their last-run status */}
+            {savedSearches.length > 0 && (
+              <SavedSearchesView
+                savedSearches={savedSearches}
+                scheduler={scheduler}
+                setRunFilter={setRunFilterAndSync}
+              />
+            )}
+
+            {/* Scrape posts that searches don't find */}
+            <AddPostByUrl onPostsAdded={fetchPosts} />
+
             {/* Global error message */}
             {error && (
               <div className="bg-red-100 border-l-4 border-red-500 text-red-700 p-4 m-4 rounded-md flex justify-between items-center">
@@ -443,26 +596,30 @@ function App() {
                 {activeTab === 'posts' && (
                   <div className="p-4 sm:p-6">
                     <div className="grid grid-cols-1 gap-4 max-w-2xl mx-auto">
-                      {filteredPosts.map(post => (
-                        <LinkedInPostCard
-                          key={post.id}
-                          post={post}
-                          onToggleApplied={handleToggleApplied}
-                          onToggleSaved={handleToggleSaved}
-                          onDelete={handleDelete}
-                          onGoToPost={p =>
-                            window.open(
-                              p.post_link,
-                              '_blank',
-                              'noopener,noreferrer'
-                            )
-                          }
-                          isLoading={loadingStates[post.id]}
-                        />
-                      ))}
+                      {filteredPosts.map(renderPostCard)}
                     </div>
                   </div>
                 )}
+                {activeTab === 'following' && (
+                  <FollowingView
+                    posts={filteredPosts}
+                    entities={watchList}
+                    checking={watchChecking}
+                    renderPost={renderPostCard}
+                  />
+                )}
+                {activeTab === 'screenshots' && (
+                  <ScreenshotGallery
+                    posts={filteredPosts}
+                    onGoToPost={p =>
+                      window.open(
+                        p.post_link,
+                        '_blank',
+                        'noopener,noreferrer'
+                      )
+                    }
+                  />
+                )}
                 {activeTab === 'db' && (
                   <TableView
                     posts={filteredPosts}
@@ -0,0 +1,97 @@
+import React, { useState } from 'react'
+import { ScrapeResult } from '../types'
+
+interface AddPostByUrlProps {
+  onPostsAdded: () => void
+}
+
+/**
+ * Summarize a scrape for the status line
+ */
+const describeResult = (result: ScrapeResult): string => {
+  const parts = [`${result.added} post${result.added !== 1 ? 's' : ''} added`]
+  if (result.known.length > 0) parts.push(`${result.known.length} already saved`)
+  if (result.invalid.length > 0) parts.push(`${result.invalid.length} not a post link`)
+  if (result.failures.length > 0) {
+    parts.push(`${result.failures.length} failed (${result.failures.map(f => f.reason).join(', ')})`)
+  }
+  if (result.skippedBudget > 0) parts.push(`${result.skippedBudget} skipped, page-load budget reached`)
+  if (result.saveError) {
+    parts.push(`${result.posts.length} scraped but not saved (${result.saveError}): ${result.posts.map(p => p.link).join(', ')}`)
+  }
+  return parts.join(' · ')
+}
+
+export const AddPostByUrl: React.FC<AddPostByUrlProps> = ({ onPostsAdded }) => {
+  const [urls, setUrls] = useState('')
+  const [scraping, setScraping] = useState(false)
+  const [status, setStatus] = useState<{ ok: boolean; message: string } | null>(null)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const links = urls.split(/\s+/).filter(Boolean)
+    if (links.length === 0) return
+
+    setScraping(true)
+    setStatus(null)
+    try {
+      const response = await fetch('/api/posts/scrape', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ urls: links }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to scrape posts')
+      }
+      const result = data as ScrapeResult
+      setStatus({
+        ok: result.failures.length === 0 && result.invalid.length === 0 && !result.saveError,
+        message: describeResult(result),
+      })
+      if (result.added > 0) {
+        setUrls('')
+        onPostsAdded()
+      }
+    } catch (err) {
+      setStatus({ ok: false, message: err instanceof Error ? err.message : 'Unknown error' })
+    } finally {
+      setScraping(false)
+    }
+  }
+
+  return (
+    <div className="bg-slate-50 px-4 pb-4 border-b border-slate-200">
+      <div className="max-w-7xl mx-auto">
+        <form onSubmit={handleSubmit} className="bg-white p-4 rounded-lg shadow-sm">
+          <h3 className="text-lg font-medium text-slate-800 mb-2">Add post by URL</h3>
+          <div className="flex flex-col sm:flex-row gap-2">
+            <textarea
+              value={urls}
+              onChange={e => setUrls(e.target.value)}
+              placeholder="Paste LinkedIn post links, one per line"
+              rows={2}
+              className="flex-1 px-3 py-2 text-sm border border-slate-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              disabled={scraping}
+            />
+            <button
+              type="submit"
+              disabled={scraping || urls.trim() === ''}
+              className="px-4 py-2 text-sm font-medium rounded-md bg-blue-500 text-white hover:bg-blue-600 disabled:bg-slate-300 disabled:cursor-not-allowed self-start"
+            >
+              {scraping ? 'Scraping…' : 'Add'}
+            </button>
+          </div>
+          {status && (
+            <p className={`mt-2 text-xs ${status.ok ? 'text-green-700' : 'text-red-700'}`}>
+              {status.message}
+            </p>
+          )}
+          <p className="mt-1 text-xs text-slate-500">
+            Saved without keywords and marked "Added by link". Uses the page-load budget like a search.
+          </p>
+        </form>
+      </div>
+    </div>
+  )
+}
@@ -1,6 +1,7 @@
 import React from 'react'
 import DatePicker from 'react-datepicker'
-import { AppliedFilterType, SavedFilterType } from '../App'
+import { AppliedFilterType, SavedFilterType, AuthorOption } from '../App'
+import { SearchRun } from '../types'
 
 interface FilterViewProps {
   keywordFilter: string
@@ -16,6 +17,12 @@ interface FilterViewProps {
   setEndDate: (value: Date | null) => void
   idFilter: string
   setIdFilter: (value: string) => void
+  authorFilter: string
+  setAuthorFilter: (value: string) => void
+  uniqueAuthors: AuthorOption[]
+  runFilter: number | null
+  setRunFilter: (value: number | null) => void
+  searchRuns: SearchRun[]
 }
 
 export const FilterView: React.FC<FilterViewProps> = ({
@@ -32,6 +39,12 @@ export const FilterView: React.FC<FilterViewProps> = ({
   setEndDate,
   idFilter,
   setIdFilter,
+  authorFilter,
+  setAuthorFilter,
+  uniqueAuthors,
+  runFilter,
+  setRunFilter,
+  searchRuns,
 }) => {
   const handleKeywordChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
     setKeywordFilter(e.target.value)
@@ -41,7 +54,7 @@ export const FilterView: React.FC<FilterViewProps> = ({
       <div className="max-w-7xl mx-auto">
         <div className="bg-white p-4 rounded-lg shadow-sm">
           <h3 className="text-lg font-medium text-slate-800 mb-4">Filters</h3>
-          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-6 gap-4">
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-8 gap-4">
             {/* Keyword Filter */}
             <div className="filter-item">
               <label
@@ -65,6 +78,60 @@ export const FilterView: React.FC<FilterViewProps> = ({
               </select>
             </div>
 
+            {/* Search Run Filter */}
+            <div className="filter-item">
+              <label
+                htmlFor="run-filter"
+                className="block text-sm font-medium text-slate-700 mb-1"
+              >
+                Search Run:
+              </label>
+              <select
+                id="run-filter"
+                value={runFilter ?? ''}
+                onChange={e => setRunFilter(e.target.value ? Number(e.target.value) : null)}
+                className="w-full bg-white border border-slate-300 rounded-md shadow-sm py-2 px-3 text-sm text-slate-900 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+              >
+                <option value="">All Runs</option>
+                {/* Keep a filter set from MCP selectable even if the run isn't loaded */}
+                {runFilter !== null && !searchRuns.some(r => r.id === runFilter) && (
+                  <option value={runFilter}>#{runFilter}</option>
+                )}
+                {searchRuns.map(run => (
+                  <option key={run.id} value={run.id} title={run.query}>
+                    #{run.id} {new Date(run.started_at).toLocaleDateString()} · {run.query} ({run.linked_posts})
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            {/* Author Filter */}
+            <div className="filter-item">
+              <label
+                htmlFor="author-filter"
+                className="block text-sm font-medium text-slate-700 mb-1"
+              >
+                Author:
+              </label>
+              <select
+                id="author-filter"
+                value={authorFilter}
+                onChange={e => setAuthorFilter(e.target.value)}
+                className="w-full bg-white border border-slate-300 rounded-md shadow-sm py-2 px-3 text-sm text-slate-900 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+              >
+                <option value="">All Authors</option>
+                {/* Keep a filter set from MCP selectable even if no loaded post matches it */}
+                {authorFilter && !uniqueAuthors.some(a => a.value === authorFilter) && (
+                  <option value={authorFilter}>{authorFilter}</option>
+                )}
+                {uniqueAuthors.map(author => (
+                  <option key={author.value} value={author.value}>
+                    {author.label} ({author.count})
+                  </option>
+                ))}
+              </select>
+            </div>
+
             {/* Applied Status Filter */}
             <div className="filter-item">
               <label
@@ -0,0 +1,102 @@
+import React, { useState } from 'react'
+import { Post, WatchedEntity } from '../types'
+import { formatTime } from '../format'
+
+interface FollowingViewProps {
+  posts: Post[]
+  entities: WatchedEntity[]
+  checking: boolean
+  renderPost: (post: Post) => React.ReactNode
+}
+
+/**
+ * Posts found in the feeds of watched profiles and company pages, newest first
+ * Posts saved by an entity's last check are marked new
+ */
+export const FollowingView: React.FC<FollowingViewProps> = ({
+  posts,
+  entities,
+  checking,
+  renderPost,
+}) => {
+  const [entityFilter, setEntityFilter] = useState<number | null>(null)
+
+  const entitiesById = new Map(entities.map(entity => [entity.id, entity]))
+  const followedPosts = posts
+    .filter(post => post.watched_entity_id !== null && (entityFilter === null || post.watched_entity_id === entityFilter))
+    .sort((a, b) => b.search_date.localeCompare(a.search_date))
+
+  const isNew = (post: Post) => {
+    const checkedAt = entitiesById.get(post.watched_entity_id!)?.last_checked_at
+    return !!checkedAt && post.search_date >= checkedAt
+  }
+
+  if (entities.length === 0) {
+    return (
+      <div className="text-center p-12">
+        <p className="text-slate-500">
+          Nobody on your watch list yet. Add profiles or company pages with the manage_watch_list tool.
+        </p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="p-4 sm:p-6">
+      <div className="max-w-2xl mx-auto">
+        <div className="flex flex-wrap items-center gap-2 mb-4">
+          <button
+            onClick={() => setEntityFilter(null)}
+            className={`px-3 py-1 rounded-full text-xs font-medium border transition-colors ${
+              entityFilter === null
+                ? 'bg-blue-500 text-white border-blue-500'
+                : 'bg-white text-slate-600 border-slate-300 hover:bg-slate-50'
+            }`}
+          >
+            Everyone
+          </button>
+          {entities.map(entity => (
+            <button
+              key={entity.id}
+              onClick={() => setEntityFilter(entity.id)}
+              title={
+                entity.last_status === 'error'
+                  ? `Last check failed: ${entity.last_error}`
+                  : `Last check: ${formatTime(entity.last_checked_at)}`
+              }
+              className={`px-3 py-1 rounded-full text-xs font-medium border transition-colors ${
+                entityFilter === entity.id
+                  ? 'bg-blue-500 text-white border-blue-500'
+                  : 'bg-white text-slate-600 border-slate-300 hover:bg-slate-50'
+              }`}
+            >
+              {entity.kind === 'company' ? '🏢' : '👤'} {entity.name}
+              {entity.last_new_posts > 0 && ` · ${entity.last_new_posts} new`}
+              {entity.last_status === 'error' && ' · ✗'}
+            </button>
+          ))}
+          {checking && <span className="text-xs text-slate-500">🔄 Checking feeds…</span>}
+        </div>
+
+        {followedPosts.length === 0 ? (
+          <p className="text-center text-slate-500 p-8">
+            No posts from your watch list match the filters. Check the feeds with manage_watch_list (action: check).
+          </p>
+        ) : (
+          <div className="grid grid-cols-1 gap-4">
+            {followedPosts.map(post => (
+              <div key={post.id}>
+                {isNew(post) && (
+                  <span className="inline-block mb-1 px-2 py-0.5 rounded-full text-xs font-semibold bg-green-100 text-green-800">
+                    🆕 New in the last check
+                  </span>
+                )}
+                {renderPost(post)}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
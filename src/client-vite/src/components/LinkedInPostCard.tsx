@@ -1,4 +1,5 @@
-import { Post } from '../types'
+import { useState } from 'react'
+import { Post, PostComment } from '../types'
 
 interface LinkedInPostCardProps {
   post: Post
@@ -17,6 +18,27 @@ export function LinkedInPostCard({
   onGoToPost,
   isLoading = false
 }: LinkedInPostCardProps) {
+  const [showComments, setShowComments] = useState(false)
+  const [capturedComments, setCapturedComments] = useState<PostComment[] | null>(null)
+  const [commentsError, setCommentsError] = useState<string | null>(null)
+  const [showScreenshot, setShowScreenshot] = useState(false)
+
+  // Comments are collapsed by default and loaded on first expand
+  const toggleComments = async () => {
+    const next = !showComments
+    setShowComments(next)
+    if (!next || capturedComments) return
+
+    try {
+      setCommentsError(null)
+      const response = await fetch(`/api/posts/${post.id}/comments`)
+      if (!response.ok) throw new Error('Failed to load comments')
+      setCapturedComments(await response.json())
+    } catch (err) {
+      setCommentsError(err instanceof Error ? err.message : 'Failed to load comments')
+    }
+  }
+
   // Get initials for fallback avatar
   const getInitials = (name: string) => {
     if (!name || name.trim() === '') return '?'
@@ -29,69 +51,13 @@ export function LinkedInPostCard({
   }
 
   /**
-   * Parse LinkedIn relative time string (e.g., "1w", "2d", "3mo") to milliseconds
-   */
-  const parseLinkedInRelativeTime = (relativeTime: string): number | null => {
-    if (!relativeTime || relativeTime.trim() === '') return null
-    
-    // Remove spaces and convert to lowercase
-    const cleaned = relativeTime.trim().toLowerCase().replace(/\s+/g, '')
-    
-    // Match pattern: number followed by unit (m, h, d, w, mo, yr)
-    const match = cleaned.match(/^(\d+)(m|h|d|w|mo|yr)$/)
-    if (!match) return null
-    
-    const value = parseInt(match[1])
-    const unit = match[2]
-    
-    const MS_PER_MINUTE = 60 * 1000
-    const MS_PER_HOUR = 60 * MS_PER_MINUTE
-    const MS_PER_DAY = 24 * MS_PER_HOUR
-    const MS_PER_WEEK = 7 * MS_PER_DAY
-    const MS_PER_MONTH = 30 * MS_PER_DAY // Approximate
-    const MS_PER_YEAR = 365 * MS_PER_DAY // Approximate
-    
-    switch (unit) {
-      case 'm': return value * MS_PER_MINUTE
-      case 'h': return value * MS_PER_HOUR
-      case 'd': return value * MS_PER_DAY
-      case 'w': return value * MS_PER_WEEK
-      case 'mo': return value * MS_PER_MONTH
-      case 'yr': return value * MS_PER_YEAR
-      default: return null
-    }
-  }
-
-  /**
-   * Calculate the actual post date from search_date and LinkedIn relative time
+   * Format timestamp for display - posted_at is computed at ingest, the search date is the fallback
    */
-  const calculateActualPostDate = (searchDate: string, linkedInRelativeTime: string): Date | null => {
-    try {
-      const searchDateTime = new Date(searchDate)
-      if (isNaN(searchDateTime.getTime())) return null
-      
-      const relativeMs = parseLinkedInRelativeTime(linkedInRelativeTime)
-      if (relativeMs === null) return null
-      
-      // Subtract the relative time from search date to get actual post date
-      return new Date(searchDateTime.getTime() - relativeMs)
-    } catch {
-      return null
-    }
-  }
-
-  /**
-   * Format timestamp for display - handles both absolute timestamps and calculated dates
-   */
-  const formatTimestamp = (postDate: string, searchDate: string): string => {
+  const formatTimestamp = (postedAt: string | null, searchDate: string): string => {
     let actualPostDate: Date | null = null
     
-    // Try to calculate actual post date from LinkedIn relative time
-    actualPostDate = calculateActualPostDate(searchDate, postDate)
-    
-    // Fallback: try parsing postDate as absolute date
-    if (!actualPostDate) {
-      const parsedDate = new Date(postDate)
+    if (postedAt) {
+      const parsedDate = new Date(postedAt)
       if (!isNaN(parsedDate.getTime())) {
         actualPostDate = parsedDate
       }
@@ -123,10 +89,9 @@ export function LinkedInPostCard({
     return actualPostDate.toLocaleDateString()
   }
 
-  const formatNumber = (num: string | number) => {
-    const numValue = typeof num === 'string' ? parseInt(num) || 0 : num
-    if (numValue >= 1000) return `${(numValue / 1000).toFixed(1)}K`
-    return numValue.toString()
+  const formatNumber = (num: number) => {
+    if (num >= 1000) return `${(num / 1000).toFixed(1)}K`
+    return num.toString()
   }
 
   const renderDescription = (text: string) => {
@@ -175,8 +140,15 @@ export function LinkedInPostCard({
   const authorName = post.author_name || 'Unknown Author'
   const authorHeadline = post.author_occupation || 'LinkedIn User'
   const authorPhotoUrl = post.profile_image || undefined
-  const likes = post.like_count ? parseInt(post.like_count) : undefined
-  const comments = post.comment_count ? parseInt(post.comment_count) : undefined
+  const likes = post.like_count_num ?? undefined
+  const comments = post.comment_count_num ?? undefined
+  const hashtags = post.hashtags ?? []
+  const mentions = post.mentions ?? []
+  // Apply links first, they're what the user is usually after
+  const links = [...(post.links ?? [])].sort((a, b) => Number(b.kind === 'apply') - Number(a.kind === 'apply'))
+  // Reshare: the original is nested under the reposter's own text (shared as-is reposts have no nested part)
+  const hasNestedOriginal = !!post.is_repost && !!post.original_description && post.original_description !== post.description
+  const hasEntities = hashtags.length > 0 || mentions.length > 0 || links.length > 0
 
   return (
     <div
@@ -184,6 +156,30 @@ export function LinkedInPostCard({
         post.applied ? 'border-green-400 border-2' : 'border-slate-200'
       }`}
     >
+      {/* Repost marker */}
+      {!!post.is_repost && (
+        <div className="px-4 pt-3 -mb-2 text-xs text-slate-500 flex items-center gap-1">
+          <svg className="w-3.5 h-3.5" fill="currentColor" viewBox="0 0 16 16">
+            <path d="M11 5.466V4H5a4 4 0 0 0-3.584 5.777.5.5 0 1 1-.896.446A5 5 0 0 1 5 3h6V1.534a.25.25 0 0 1 .41-.192l2.36 1.966c.12.1.12.284 0 .384l-2.36 1.966a.25.25 0 0 1-.41-.192Zm3.81.086a.5.5 0 0 1 .67.225A5 5 0 0 1 11 13H5v1.466a.25.25 0 0 1-.41.192l-2.36-1.966a.25.25 0 0 1 0-.384l2.36-1.966a.25.25 0 0 1 .41.192V12h6a4 4 0 0 0 3.585-5.777.5.5 0 0 1 .225-.67Z"/>
+          </svg>
+          <span>{hasNestedOriginal ? `${authorName} reposted with thoughts` : 'Repost'}</span>
+        </div>
+      )}
+
+      {/* Watch list marker */}
+      {post.watched_entity_name && (
+        <div className="px-4 pt-3 -mb-2 text-xs text-slate-500">
+          👀 From your watch list: {post.watched_entity_name}
+        </div>
+      )}
+
+      {/* Added by link marker */}
+      {post.source === 'manual' && (
+        <div className="px-4 pt-3 -mb-2 text-xs text-slate-500">
+          🔗 Added by link
+        </div>
+      )}
+
       {/* Header */}
       <div className="p-4 pb-3">
         <div className="flex items-start justify-between">
@@ -203,14 +199,25 @@ export function LinkedInPostCard({
 
             {/* Author Info */}
             <div className="flex-1 min-w-0">
-              <div className="font-semibold text-slate-900 hover:text-blue-600 hover:underline cursor-pointer">
-                {authorName}
-              </div>
+              {post.author_profile_url ? (
+                <a
+                  href={post.author_profile_url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="block font-semibold text-slate-900 hover:text-blue-600 hover:underline"
+                >
+                  {authorName}
+                </a>
+              ) : (
+                <div className="font-semibold text-slate-900">
+                  {authorName}
+                </div>
+              )}
               <div className="text-sm text-slate-600 line-clamp-1">
                 {authorHeadline}
               </div>
               <div className="text-xs text-slate-500 flex items-center gap-1 mt-0.5">
-                <span>{formatTimestamp(post.post_date || post.search_date, post.search_date)}</span>
+                <span>{formatTimestamp(post.posted_at, post.search_date)}</span>
                 <span>•</span>
                 <svg className="w-3 h-3" fill="currentColor" viewBox="0 0 16 16">
                   <path d="M8 8a3 3 0 1 0 0-6 3 3 0 0 0 0 6Zm2-3a2 2 0 1 1-4 0 2 2 0 0 1 4 0Zm4 8c0 1-1 1-1 1H3s-1 0-1-1 1-4 6-4 6 3 6 4Zm-1-.004c-.001-.246-.154-.986-.832-1.664C11.516 10.68 10.289 10 8 10c-2.29 0-3.516.68-4.168 1.332-.678.678-.83 1.418-.832 1.664h10Z"/>
@@ -283,6 +290,86 @@ export function LinkedInPostCard({
         </div>
       </div>
 
+      {/* Nested original post (reshares) */}
+      {hasNestedOriginal && (
+        <div className="mx-4 mb-3 border border-slate-200 rounded-lg overflow-hidden">
+          <div className="px-3 pt-3 pb-2 flex gap-2">
+            <div className="w-8 h-8 rounded-full bg-gradient-to-br from-slate-400 to-slate-500 flex items-center justify-center text-white font-semibold text-xs shrink-0">
+              {getInitials(post.original_author_name)}
+            </div>
+            <div className="flex-1 min-w-0">
+              <div className="text-sm font-semibold text-slate-900 truncate">
+                {post.original_author_name || 'Unknown Author'}
+              </div>
+              {post.original_author_occupation && (
+                <div className="text-xs text-slate-600 line-clamp-1">
+                  {post.original_author_occupation}
+                </div>
+              )}
+            </div>
+          </div>
+          <div className="px-3 pb-3 text-slate-800 whitespace-pre-wrap break-words text-sm leading-relaxed">
+            {renderDescription(post.original_description)}
+          </div>
+          {post.original_post_link && (
+            <a
+              href={post.original_post_link}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="block px-3 py-1.5 border-t border-slate-100 text-xs font-medium text-slate-600 hover:bg-slate-50"
+            >
+              View original post
+            </a>
+          )}
+        </div>
+      )}
+
+      {/* Links, Mentions & Hashtags */}
+      {hasEntities && (
+        <div className="px-4 pb-3 flex flex-wrap gap-1.5">
+          {links.map(link => (
+            <a
+              key={`link-${link.url}`}
+              href={link.url}
+              target="_blank"
+              rel="noopener noreferrer"
+              title={link.url}
+              className={`inline-flex items-center gap-1 max-w-full px-2 py-0.5 rounded-full text-xs font-medium border transition-colors ${
+                link.kind === 'apply'
+                  ? 'bg-green-50 text-green-700 border-green-200 hover:bg-green-100'
+                  : 'bg-slate-50 text-slate-700 border-slate-200 hover:bg-slate-100'
+              }`}
+            >
+              {link.kind === 'apply' && <span className="font-semibold">Apply</span>}
+              <span className="truncate">{link.link_text || link.url}</span>
+            </a>
+          ))}
+          {mentions.map(mention => (
+            <a
+              key={`mention-${mention.profile_url}`}
+              href={mention.profile_url}
+              target="_blank"
+              rel="noopener noreferrer"
+              title={mention.kind === 'company' ? 'Company' : 'Person'}
+              className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-blue-50 text-blue-700 border border-blue-200 hover:bg-blue-100 transition-colors"
+            >
+              @{mention.name}
+            </a>
+          ))}
+          {hashtags.map(tag => (
+            <a
+              key={`hashtag-${tag}`}
+              href={`https://www.linkedin.com/feed/hashtag/?keywords=${encodeURIComponent(tag)}`}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium text-blue-600 hover:bg-blue-50 transition-colors"
+            >
+              #{tag}
+            </a>
+          ))}
+        </div>
+      )}
+
       {/* Post Image (if exists) - We don't have this field in DB yet */}
       {/* {post.postImageUrl && (
         <div className="w-full">
@@ -321,6 +408,62 @@ export function LinkedInPostCard({
         </div>
       )}
 
+      {/* Screenshot (collapsed) */}
+      {post.screenshot && (
+        <div className="px-4 py-2 border-t border-slate-100">
+          <button
+            onClick={() => setShowScreenshot(!showScreenshot)}
+            className="text-xs font-medium text-slate-600 hover:text-blue-600 hover:underline"
+          >
+            {showScreenshot ? 'Hide' : 'Show'} screenshot
+          </button>
+          {showScreenshot && (
+            <img
+              src={`/api/screenshots/${encodeURIComponent(post.screenshot)}`}
+              alt={`Screenshot of post by ${post.author_name || 'unknown author'}`}
+              className="mt-2 w-full rounded-lg border border-slate-200"
+              loading="lazy"
+            />
+          )}
+        </div>
+      )}
+
+      {/* Captured Comments (collapsed) */}
+      {!!post.captured_comments && (
+        <div className="px-4 py-2 border-t border-slate-100">
+          <button
+            onClick={toggleComments}
+            className="text-xs font-medium text-slate-600 hover:text-blue-600 hover:underline"
+          >
+            {showComments ? 'Hide' : 'Show'} {post.captured_comments} captured {post.captured_comments === 1 ? 'comment' : 'comments'}
+          </button>
+          {showComments && (
+            <div className="mt-2 space-y-2">
+              {commentsError && <div className="text-xs text-red-600">{commentsError}</div>}
+              {!capturedComments && !commentsError && <div className="text-xs text-slate-400">Loading...</div>}
+              {capturedComments?.map(comment => (
+                <div key={comment.id} className="bg-slate-50 rounded-lg px-3 py-2">
+                  <div className="flex items-baseline justify-between gap-2">
+                    <div className="min-w-0">
+                      <span className="text-xs font-semibold text-slate-900">{comment.author_name}</span>
+                      {comment.author_headline && (
+                        <span className="text-xs text-slate-500 line-clamp-1">{comment.author_headline}</span>
+                      )}
+                    </div>
+                    {comment.relative_time && (
+                      <span className="text-[10px] text-slate-400 shrink-0">{comment.relative_time}</span>
+                    )}
+                  </div>
+                  <div className="text-xs text-slate-800 whitespace-pre-wrap break-words mt-1">
+                    {comment.comment_text}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Footer Action Buttons */}
       <div className="px-4 py-2 border-t border-slate-100">
         <div className="flex items-center justify-between gap-2">
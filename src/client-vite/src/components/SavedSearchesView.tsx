@@ -0,0 +1,85 @@
+import React from 'react'
+import { SavedSearch, SchedulerStatus } from '../types'
+import { formatTime } from '../format'
+
+interface SavedSearchesViewProps {
+  savedSearches: SavedSearch[]
+  scheduler: SchedulerStatus | null
+  setRunFilter: (value: number | null) => void
+}
+
+export const SavedSearchesView: React.FC<SavedSearchesViewProps> = ({
+  savedSearches,
+  scheduler,
+  setRunFilter,
+}) => {
+  return (
+    <div className="bg-slate-50 px-4 pb-4 border-b border-slate-200">
+      <div className="max-w-7xl mx-auto">
+        <div className="bg-white p-4 rounded-lg shadow-sm">
+          <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+            <h3 className="text-lg font-medium text-slate-800">Saved Searches</h3>
+            <span className="text-xs text-slate-500">
+              {scheduler?.active
+                ? `⏰ Scheduler running (last check: ${formatTime(scheduler.lastCheckAt)})`
+                : '⏸️ Scheduler stopped'}
+              {scheduler?.runningSearch && ` · 🔄 Running: ${scheduler.runningSearch}`}
+            </span>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="text-left text-slate-500 border-b border-slate-200">
+                  <th className="py-2 pr-4 font-medium">Name</th>
+                  <th className="py-2 pr-4 font-medium">Query</th>
+                  <th className="py-2 pr-4 font-medium">Schedule</th>
+                  <th className="py-2 pr-4 font-medium">Last run</th>
+                  <th className="py-2 font-medium">Next run</th>
+                </tr>
+              </thead>
+              <tbody>
+                {savedSearches.map(search => (
+                  <tr key={search.id} className="border-b border-slate-100 last:border-0">
+                    <td className="py-2 pr-4 font-medium text-slate-800">{search.name}</td>
+                    <td className="py-2 pr-4 text-slate-600 max-w-xs truncate" title={search.keywords}>
+                      {search.keywords}
+                    </td>
+                    <td className="py-2 pr-4 text-slate-600">
+                      {search.interval_minutes > 0
+                        ? `Every ${search.interval_minutes} min${search.enabled ? '' : ' (disabled)'}`
+                        : 'Manual'}
+                    </td>
+                    <td className="py-2 pr-4">
+                      {search.last_run_at ? (
+                        <span
+                          className={search.last_status === 'ok' ? 'text-green-700' : 'text-red-700'}
+                          title={search.last_error || undefined}
+                        >
+                          {search.last_status === 'ok' ? '✓' : '✗'} {formatTime(search.last_run_at)}
+                          {search.last_status === 'ok' && ` · ${search.last_new_posts} new`}
+                          {search.last_run_id !== null && (
+                            <button
+                              className="ml-2 text-blue-600 hover:underline"
+                              onClick={() => setRunFilter(search.last_run_id)}
+                            >
+                              Show posts
+                            </button>
+                          )}
+                        </span>
+                      ) : (
+                        <span className="text-slate-400">Never</span>
+                      )}
+                    </td>
+                    <td className="py-2 text-slate-600">
+                      {search.next_run_at ? formatTime(search.next_run_at) : '—'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
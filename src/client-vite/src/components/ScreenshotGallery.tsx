@@ -0,0 +1,54 @@
+import React from 'react'
+import { Post } from '../types'
+
+interface ScreenshotGalleryProps {
+  posts: Post[]
+  onGoToPost: (post: Post) => void
+}
+
+export const ScreenshotGallery: React.FC<ScreenshotGalleryProps> = ({
+  posts,
+  onGoToPost,
+}) => {
+  const withScreenshots = posts.filter(post => post.screenshot)
+
+  if (withScreenshots.length === 0) {
+    return (
+      <div className="text-center p-12">
+        <p className="text-slate-500">
+          No screenshots for these posts. Run search_posts with screenshots: true to capture them.
+        </p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="p-4 sm:p-6">
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4 max-w-7xl mx-auto">
+        {withScreenshots.map(post => (
+          <div key={post.id} className="bg-white rounded-lg shadow-sm border border-slate-200 overflow-hidden">
+            <button
+              onClick={() => onGoToPost(post)}
+              className="block w-full"
+              title="Open on LinkedIn"
+            >
+              <img
+                src={`/api/screenshots/${encodeURIComponent(post.screenshot)}`}
+                alt={`Screenshot of post by ${post.author_name || 'unknown author'}`}
+                className="w-full max-h-96 object-cover object-top"
+                loading="lazy"
+              />
+            </button>
+            <div className="px-3 py-2 border-t border-slate-100 flex items-center justify-between gap-2 text-xs">
+              <span className="font-semibold text-slate-800 truncate">{post.author_name || 'Unknown author'}</span>
+              <span className="text-slate-400 shrink-0">
+                #{post.id}
+                {post.applied ? ' · ✅ Applied' : ''}
+              </span>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
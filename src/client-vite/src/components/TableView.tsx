@@ -207,11 +207,35 @@ export function TableView({ posts, onPostUpdate, onPostDelete }: TableViewProps)
         ),
       size: 400
     }),
-    columnHelper.accessor('post_date', {
+    columnHelper.accessor('screenshot', {
+      header: 'Screenshot',
+      cell: info =>
+        info.getValue() ? (
+          <a
+            href={`/api/screenshots/${encodeURIComponent(info.getValue())}`}
+            target="_blank"
+            rel="noopener noreferrer"
+            title="Open full screenshot"
+          >
+            <img
+              src={`/api/screenshots/${encodeURIComponent(info.getValue())}`}
+              alt="Post screenshot"
+              className="w-24 max-h-24 object-cover object-top rounded border border-slate-200"
+              loading="lazy"
+            />
+          </a>
+        ) : (
+          <span className="text-slate-400">-</span>
+        ),
+      size: 120
+    }),
+    columnHelper.accessor('posted_at', {
       header: 'Post Date',
       cell: info => (
-        <span className="text-slate-600 text-sm">
-          {info.getValue() || '-'}
+        <span className="text-slate-600 text-sm" title={info.row.original.post_date}>
+          {info.getValue()
+            ? new Date(info.getValue()!).toLocaleDateString()
+            : info.row.original.post_date || '-'}
         </span>
       ),
       size: 120
@@ -225,23 +249,23 @@ export function TableView({ posts, onPostUpdate, onPostDelete }: TableViewProps)
       ),
       size: 100
     }),
-    columnHelper.accessor('like_count', {
+    columnHelper.accessor('like_count_num', {
       header: 'Likes',
       cell: info => (
         <div className="text-center">
           <span className="text-slate-700">
-            {info.getValue() ? `👍 ${info.getValue()}` : '-'}
+            {info.getValue() !== null ? `👍 ${info.getValue()}` : info.row.original.like_count || '-'}
           </span>
         </div>
       ),
       size: 90
     }),
-    columnHelper.accessor('comment_count', {
+    columnHelper.accessor('comment_count_num', {
       header: 'Comments',
       cell: info => (
         <div className="text-center">
           <span className="text-slate-700">
-            {info.getValue() ? `💬 ${info.getValue()}` : '-'}
+            {info.getValue() !== null ? `💬 ${info.getValue()}` : info.row.original.comment_count || '-'}
           </span>
         </div>
       ),
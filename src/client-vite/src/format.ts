@@ -0,0 +1,5 @@
+/**
+ * Format an ISO timestamp in the browser's locale, or "never" when unset
+ */
+export const formatTime = (iso: string | null) =>
+  iso ? new Date(iso).toLocaleString(undefined, { dateStyle: 'short', timeStyle: 'short' }) : 'never'
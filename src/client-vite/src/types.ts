@@ -10,9 +10,121 @@ export interface Post {
   profile_image: string
   author_name: string
   author_occupation: string
-  post_date: string
+  post_date: string // LinkedIn's relative time at scrape, e.g. "1w"
   like_count: string
   comment_count: string
+  posted_at: string | null // absolute post date computed at ingest (ISO)
+  like_count_num: number | null
+  comment_count_num: number | null
+  screenshot: string // file name served by /api/screenshots/:filename, '' when none was captured
+  search_facets: string // JSON-encoded facets used by the search
+  is_repost: number // 0 or 1 (SQLite boolean)
+  original_author_name: string
+  original_author_occupation: string
+  original_post_urn: string
+  original_post_link: string
+  original_description: string
+  hashtags?: string[] // stored without the leading #
+  mentions?: PostMention[]
+  links?: PostLink[]
+  captured_comments?: number // comments stored for the post (GET /api/posts/:id/comments)
+  author_id: number | null
+  author_profile_url?: string // '' when the author's profile wasn't captured
+  search_runs?: number[] // IDs of the search runs that found the post
+  search_queries?: string[] // queries of those runs
+  watched_entity_id: number | null // watch list entry whose feed the post was found in
+  watched_entity_name?: string // '' when the post isn't from a watched feed
+  source: string // 'manual' for posts added by link (no keywords), '' for posts found by a search
 }
 
+export interface SearchRun {
+  id: number
+  query: string
+  facets: string // JSON-encoded facets
+  extraction_mode: string
+  started_at: string
+  finished_at: string
+  duration_ms: number
+  urns_found: number
+  new_posts: number
+  duplicates: number
+  failures: number
+  error: string
+  linked_posts: number
+}
+
+export interface SavedSearch {
+  id: number
+  name: string
+  keywords: string // compiled LinkedIn query
+  facets: string // JSON-encoded facets
+  pagination: number
+  target_count: number | null
+  extraction_mode: string
+  interval_minutes: number // 0 = manual only
+  enabled: number
+  created_at: string
+  updated_at: string
+  next_run_at: string | null
+  last_run_at: string | null
+  last_run_id: number | null
+  last_status: string // '' (never run), 'ok' or 'error'
+  last_error: string
+  last_new_posts: number
+}
 
+export interface WatchedEntity {
+  id: number
+  kind: string // 'person' | 'company'
+  name: string
+  profile_url: string
+  added_at: string
+  last_checked_at: string | null
+  last_run_id: number | null
+  last_status: string // '' (never checked), 'ok' or 'error'
+  last_error: string
+  last_new_posts: number
+  post_count: number
+}
+
+export interface SchedulerStatus {
+  active: boolean
+  startedAt: string | null
+  lastCheckAt: string | null
+  runningSearch: string | null
+}
+
+export interface PostComment {
+  id: number
+  post_id: number
+  position: number
+  author_name: string
+  author_headline: string
+  comment_text: string
+  relative_time: string
+  captured_at: string
+}
+
+export interface PostMention {
+  name: string
+  profile_url: string
+  kind: string // 'person' | 'company'
+}
+
+export interface PostLink {
+  url: string
+  link_text: string
+  kind: string // 'apply' | 'link'
+}
+
+
+
+export interface ScrapeResult {
+  added: number
+  known: string[] // links already in the database, not scraped
+  invalid: string[] // inputs that aren't LinkedIn post links
+  failures: { link: string; reason: string; message: string; attempts: number }[]
+  skippedBudget: number // posts not scraped because the page-load budget ran out
+  posts: { link: string; description: string }[] // posts extracted, saved or not
+  saveError: string | null // set when the extracted posts couldn't be saved
+}
@@ -2,6 +2,7 @@ import initSqlJs, { Database } from 'sql.js';
 import path from 'path';
 import fs from 'fs';
 import { getResourcesPath } from '../utils/paths.js';
+import { computePostedAt, parseEngagementCount } from '../utils/post-normalize.js';
 
 let db: Database | null = null;
 let dbPath: string;
@@ -63,7 +64,21 @@ function initializeSchema(): void {
       author_occupation TEXT DEFAULT '',
       post_date TEXT DEFAULT '',
       like_count TEXT DEFAULT '',
-      comment_count TEXT DEFAULT ''
+      comment_count TEXT DEFAULT '',
+      search_facets TEXT DEFAULT '',
+      is_repost INTEGER DEFAULT 0,
+      original_author_name TEXT DEFAULT '',
+      original_author_occupation TEXT DEFAULT '',
+      original_post_urn TEXT DEFAULT '',
+      original_post_link TEXT DEFAULT '',
+      original_description TEXT DEFAULT '',
+      author_id INTEGER,
+      posted_at TEXT,
+      like_count_num INTEGER,
+      comment_count_num INTEGER,
+      screenshot TEXT DEFAULT '',
+      watched_entity_id INTEGER,
+      source TEXT DEFAULT ''
     );
   `);
   
@@ -74,15 +89,236 @@ function initializeSchema(): void {
     // Column already exists, ignore error
   }
   
+  // Migration: Add search_facets column (JSON of the facets used by the search)
+  try {
+    db.run(`ALTER TABLE posts ADD COLUMN search_facets TEXT DEFAULT '';`);
+  } catch (error) {
+    // Column already exists, ignore error
+  }
+  
+  // Migration: Add repost columns (original post behind a repost/reshare)
+  for (const column of [
+    'is_repost INTEGER DEFAULT 0',
+    'original_author_name TEXT DEFAULT \'\'',
+    'original_author_occupation TEXT DEFAULT \'\'',
+    'original_post_urn TEXT DEFAULT \'\'',
+    'original_post_link TEXT DEFAULT \'\'',
+    'original_description TEXT DEFAULT \'\''
+  ]) {
+    try {
+      db.run(`ALTER TABLE posts ADD COLUMN ${column};`);
+    } catch (error) {
+      // Column already exists, ignore error
+    }
+  }
+  
+  // Migration: Add author_id column (references authors.id, NULL when the profile URL is unknown)
+  try {
+    db.run(`ALTER TABLE posts ADD COLUMN author_id INTEGER;`);
+  } catch (error) {
+    // Column already exists, ignore error
+  }
+  
+  // Migration: Add normalized post date / engagement columns, backfilled from the raw strings
+  let normalizedColumnsAdded = false;
+  for (const column of ['posted_at TEXT', 'like_count_num INTEGER', 'comment_count_num INTEGER']) {
+    try {
+      db.run(`ALTER TABLE posts ADD COLUMN ${column};`);
+      normalizedColumnsAdded = true;
+    } catch (error) {
+      // Column already exists, ignore error
+    }
+  }
+  if (normalizedColumnsAdded) {
+    backfillNormalizedColumns(db);
+  }
+  
+  // Migration: Add screenshot column (file name in the screenshots directory, '' when none)
+  try {
+    db.run(`ALTER TABLE posts ADD COLUMN screenshot TEXT DEFAULT '';`);
+  } catch (error) {
+    // Column already exists, ignore error
+  }
+  
+  // Migration: Add watched_entity_id column (references watched_entities.id, NULL when not from a watched feed)
+  try {
+    db.run(`ALTER TABLE posts ADD COLUMN watched_entity_id INTEGER;`);
+  } catch (error) {
+    // Column already exists, ignore error
+  }
+  
+  // Migration: Add source column ('manual' for posts added by link, '' for posts found by a search)
+  try {
+    db.run(`ALTER TABLE posts ADD COLUMN source TEXT DEFAULT '';`);
+  } catch (error) {
+    // Column already exists, ignore error
+  }
+  
+  // Authors keyed by canonical profile URL; name/headline/image keep the latest values seen
+  db.run(`
+    CREATE TABLE IF NOT EXISTS authors (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      profile_url TEXT UNIQUE NOT NULL,
+      author_urn TEXT DEFAULT '',
+      name TEXT DEFAULT '',
+      occupation TEXT DEFAULT '',
+      profile_image TEXT DEFAULT '',
+      first_seen TEXT NOT NULL,
+      last_seen TEXT NOT NULL
+    );
+  `);
+  
+  // Entities extracted from the post commentary (rows removed together with the post)
+  db.run(`
+    CREATE TABLE IF NOT EXISTS post_hashtags (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      post_id INTEGER NOT NULL,
+      tag TEXT NOT NULL,
+      UNIQUE(post_id, tag)
+    );
+  `);
+  
+  db.run(`
+    CREATE TABLE IF NOT EXISTS post_mentions (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      post_id INTEGER NOT NULL,
+      name TEXT NOT NULL,
+      profile_url TEXT NOT NULL,
+      kind TEXT NOT NULL DEFAULT 'person',
+      UNIQUE(post_id, profile_url)
+    );
+  `);
+  
+  db.run(`
+    CREATE TABLE IF NOT EXISTS post_links (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      post_id INTEGER NOT NULL,
+      url TEXT NOT NULL,
+      link_text TEXT DEFAULT '',
+      kind TEXT NOT NULL DEFAULT 'link',
+      UNIQUE(post_id, url)
+    );
+  `);
+  
+  // Top comments captured from the post page (replaced on every capture)
+  db.run(`
+    CREATE TABLE IF NOT EXISTS comments (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      post_id INTEGER NOT NULL,
+      position INTEGER NOT NULL,
+      author_name TEXT DEFAULT '',
+      author_headline TEXT DEFAULT '',
+      comment_text TEXT NOT NULL,
+      relative_time TEXT DEFAULT '',
+      captured_at TEXT NOT NULL
+    );
+  `);
+  
+  // One row per search query run; posts found by a run are linked in search_run_posts
+  db.run(`
+    CREATE TABLE IF NOT EXISTS search_runs (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      query TEXT NOT NULL,
+      facets TEXT DEFAULT '',
+      extraction_mode TEXT DEFAULT 'full',
+      started_at TEXT NOT NULL,
+      finished_at TEXT NOT NULL,
+      duration_ms INTEGER DEFAULT 0,
+      urns_found INTEGER DEFAULT 0,
+      new_posts INTEGER DEFAULT 0,
+      duplicates INTEGER DEFAULT 0,
+      failures INTEGER DEFAULT 0,
+      error TEXT DEFAULT ''
+    );
+  `);
+  
+  db.run(`
+    CREATE TABLE IF NOT EXISTS search_run_posts (
+      run_id INTEGER NOT NULL,
+      post_id INTEGER NOT NULL,
+      PRIMARY KEY (run_id, post_id)
+    );
+  `);
+  
+  // Saved searches re-run by name or by the scheduler (interval_minutes 0 = manual only)
+  db.run(`
+    CREATE TABLE IF NOT EXISTS saved_searches (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      name TEXT NOT NULL UNIQUE,
+      keywords TEXT NOT NULL,
+      facets TEXT DEFAULT '',
+      pagination INTEGER DEFAULT 3,
+      target_count INTEGER,
+      extraction_mode TEXT DEFAULT 'full',
+      interval_minutes INTEGER DEFAULT 0,
+      enabled INTEGER DEFAULT 1,
+      created_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL,
+      next_run_at TEXT,
+      last_run_at TEXT,
+      last_run_id INTEGER,
+      last_status TEXT DEFAULT '',
+      last_error TEXT DEFAULT '',
+      last_new_posts INTEGER DEFAULT 0
+    );
+  `);
+  
+  // Profiles and company pages whose activity feeds are checked for new posts
+  db.run(`
+    CREATE TABLE IF NOT EXISTS watched_entities (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      kind TEXT NOT NULL,
+      name TEXT NOT NULL,
+      profile_url TEXT UNIQUE NOT NULL,
+      added_at TEXT NOT NULL,
+      last_checked_at TEXT,
+      last_run_id INTEGER,
+      last_status TEXT DEFAULT '',
+      last_error TEXT DEFAULT '',
+      last_new_posts INTEGER DEFAULT 0
+    );
+  `);
+  
   db.run(`CREATE INDEX IF NOT EXISTS idx_posts_link ON posts(post_link);`);
   db.run(`CREATE INDEX IF NOT EXISTS idx_posts_date ON posts(search_date);`);
   db.run(`CREATE INDEX IF NOT EXISTS idx_posts_applied ON posts(applied);`);
   db.run(`CREATE INDEX IF NOT EXISTS idx_posts_saved ON posts(saved);`);
+  db.run(`CREATE INDEX IF NOT EXISTS idx_posts_author ON posts(author_id);`);
+  db.run(`CREATE INDEX IF NOT EXISTS idx_posts_posted_at ON posts(posted_at);`);
+  db.run(`CREATE INDEX IF NOT EXISTS idx_posts_watched ON posts(watched_entity_id);`);
+  db.run(`CREATE INDEX IF NOT EXISTS idx_post_hashtags_post ON post_hashtags(post_id);`);
+  db.run(`CREATE INDEX IF NOT EXISTS idx_post_hashtags_tag ON post_hashtags(tag);`);
+  db.run(`CREATE INDEX IF NOT EXISTS idx_post_mentions_post ON post_mentions(post_id);`);
+  db.run(`CREATE INDEX IF NOT EXISTS idx_post_links_post ON post_links(post_id);`);
+  db.run(`CREATE INDEX IF NOT EXISTS idx_comments_post ON comments(post_id);`);
+  db.run(`CREATE INDEX IF NOT EXISTS idx_search_runs_started ON search_runs(started_at);`);
+  db.run(`CREATE INDEX IF NOT EXISTS idx_search_run_posts_post ON search_run_posts(post_id);`);
   
   // Save after schema creation
   saveDatabase();
 }
 
+/**
+ * Fill posted_at and the integer counts of existing rows from post_date, like_count and comment_count
+ * post_date is relative to when the post was scraped, so search_date is the reference
+ */
+function backfillNormalizedColumns(database: Database): void {
+  const result = database.exec('SELECT id, search_date, post_date, like_count, comment_count FROM posts');
+  if (result.length === 0) return;
+  
+  for (const [id, searchDate, postDate, likeCount, commentCount] of result[0].values) {
+    database.run(
+      'UPDATE posts SET posted_at = ?, like_count_num = ?, comment_count_num = ? WHERE id = ?',
+      [
+        computePostedAt(postDate as string, searchDate as string),
+        parseEngagementCount(likeCount as string),
+        parseEngagementCount(commentCount as string),
+        id
+      ]
+    );
+  }
+}
+
 /**
  * Close database connection (cleanup)
  */
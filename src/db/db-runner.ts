@@ -0,0 +1,115 @@
+/**
+ * Offline regression suite for the database operations
+ * Runs against a fresh database in a temporary data directory (the real one is never opened)
+ * and checks that bulk operations take more IDs and links than SQLite binds in one statement.
+ *
+ * Run directly with: npx tsx src/db/db-runner.ts
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+// More than SQLite's bound parameter limit (32766 in sql.js)
+const OVER_LIMIT_COUNT = 40000;
+
+interface Check {
+  name: string;
+  run: () => Promise<string[]>;
+}
+
+/**
+ * Compare a count against the expected one, as a list of mismatches
+ */
+const expectCount = (label: string, actual: number, expected: number): string[] =>
+  actual === expected ? [] : [`${label}: expected ${expected}, got ${actual}`];
+
+const main = async (): Promise<number> => {
+  // Point the data directory at a temporary home before the database module loads
+  const home = fs.mkdtempSync(path.join(os.tmpdir(), 'linkedin-mcp-db-'));
+  process.env.HOME = home;
+  process.env.USERPROFILE = home;
+  process.env.APPDATA = home;
+
+  const { ensureResourceDirectories } = await import('../utils/paths.js');
+  const ops = await import('./operations.js');
+  ensureResourceDirectories();
+
+  const searchDate = new Date().toISOString();
+  const links = ['a', 'b', 'c'].map(name => `https://www.linkedin.com/feed/update/urn:li:activity:${name}/`);
+  const ids: number[] = [];
+  for (const link of links) {
+    ids.push((await ops.insertPost('db-runner', link, 'Fixture post', searchDate))!);
+  }
+
+  // Stored IDs and links at the end of a list of unknown ones, so they land in the last chunk
+  const manyIds = [...Array.from({ length: OVER_LIMIT_COUNT }, (_, i) => 1000000 + i), ...ids];
+  const manyLinks = [...Array.from({ length: OVER_LIMIT_COUNT }, (_, i) => `https://example.com/${i}`), ...links];
+
+  const checks: Check[] = [
+    {
+      name: 'getExistingPostLinks',
+      run: async () => expectCount('existing links', (await ops.getExistingPostLinks(manyLinks)).size, links.length)
+    },
+    {
+      name: 'getCommentsForPosts',
+      run: async () => expectCount('posts with comments', (await ops.getCommentsForPosts(manyIds)).size, 0)
+    },
+    {
+      name: 'queryPosts ids filter',
+      run: async () => [
+        ...expectCount('posts found', (await ops.queryPosts({ ids: manyIds })).length, ids.length),
+        ...expectCount('posts found with limit', (await ops.queryPosts({ ids: manyIds, limit: 2 })).length, 2)
+      ]
+    },
+    {
+      name: 'updatePostsBulk',
+      run: async () => [
+        ...expectCount('posts updated', await ops.updatePostsBulk(manyIds, { new_applied: true }), ids.length),
+        ...expectCount('applied posts', await ops.countPosts({ applied: true }), ids.length)
+      ]
+    },
+    {
+      name: 'deletePostsBulk',
+      run: async () => [
+        ...expectCount('posts deleted', await ops.deletePostsBulk(manyIds), ids.length),
+        ...expectCount('posts left', await ops.countPosts(), 0)
+      ]
+    }
+  ];
+
+  let passed = 0;
+  let failed = 0;
+
+  try {
+    for (const check of checks) {
+      let mismatches: string[];
+      try {
+        mismatches = await check.run();
+      } catch (error) {
+        mismatches = [`threw ${error instanceof Error ? error.message : String(error)}`];
+      }
+
+      if (mismatches.length === 0) {
+        passed++;
+        console.log(`✅ ${check.name}`);
+      } else {
+        failed++;
+        console.log(`❌ ${check.name}`);
+        mismatches.forEach(m => console.log(`   ${m}`));
+      }
+    }
+  } finally {
+    fs.rmSync(home, { recursive: true, force: true });
+  }
+
+  console.log(`\n📊 ${passed} passed, ${failed} failed`);
+  return failed > 0 ? 1 : 0;
+};
+
+main()
+  .then(code => process.exit(code))
+  .catch(error => {
+    console.error('\n❌ Database run failed:', error);
+    process.exit(1);
+  });
@@ -1,4 +1,25 @@
+import type { Database } from 'sql.js';
 import { getDatabase, saveDatabase } from './database.js';
+import { computePostedAt, parseEngagementCount } from '../utils/post-normalize.js';
+import { deleteScreenshotFiles } from '../utils/screenshots.js';
+
+// Author filter: partial name match on the post, or exact profile URL / URN of a linked author
+const AUTHOR_FILTER_SQL = `(author_name LIKE ? OR author_id IN (
+  SELECT id FROM authors WHERE name LIKE ? OR profile_url = ? OR author_urn = ?
+))`;
+
+// Keyword filter: the query stored on the post, or the query of any search run that found it
+const KEYWORD_FILTER_SQL = `(search_keywords LIKE ? OR id IN (
+  SELECT search_run_posts.post_id FROM search_run_posts
+  JOIN search_runs ON search_runs.id = search_run_posts.run_id
+  WHERE search_runs.query LIKE ?
+))`;
+
+// Run filter: posts found by one search run
+const RUN_FILTER_SQL = `id IN (SELECT post_id FROM search_run_posts WHERE run_id = ?)`;
+
+// Most values bound in one IN (...) list, well below SQLite's bound parameter limit
+const IN_LIST_CHUNK_SIZE = 500;
 
 export interface DbPost {
   id: number;
@@ -14,136 +35,1141 @@ export interface DbPost {
   post_date: string;
   like_count: string;
   comment_count: string;
+  search_facets: string; // JSON-encoded SearchFacets used by the search that found the post
+  is_repost: number; // 1 when the post is a repost/reshare of another post
+  original_author_name: string;
+  original_author_occupation: string;
+  original_post_urn: string;
+  original_post_link: string;
+  original_description: string;
+  author_id: number | null; // authors.id, null when the author's profile URL wasn't captured
+  posted_at: string | null; // ISO timestamp computed from post_date at ingest, null when unparseable
+  like_count_num: number | null; // like_count as an integer, null when unparseable
+  comment_count_num: number | null; // comment_count as an integer, null when unparseable
+  screenshot: string; // File name in the screenshots directory, '' when none was captured
+  watched_entity_id: number | null; // watched_entities.id of the feed the post was found in, null otherwise
+  source: string; // 'manual' for posts added by link (no search keywords), '' for posts found by a search
+}
+
+/**
+ * Sort orders for queryPosts (all newest/highest first)
+ */
+export type PostSortBy = 'search_date' | 'posted_at' | 'likes' | 'comments';
+
+const SORT_SQL: Record<PostSortBy, string> = {
+  search_date: 'search_date DESC',
+  // Posts without a parsed date/count go last
+  posted_at: 'posted_at IS NULL, posted_at DESC, search_date DESC',
+  likes: 'like_count_num IS NULL, like_count_num DESC, search_date DESC',
+  comments: 'comment_count_num IS NULL, comment_count_num DESC, search_date DESC'
+};
+
+export interface DbAuthor {
+  id: number;
+  profile_url: string; // canonical https://www.linkedin.com/in/<slug>/ (or /company/<slug>/)
+  author_urn: string;
+  name: string;
+  occupation: string;
+  profile_image: string;
+  first_seen: string;
+  last_seen: string;
+}
+
+/**
+ * Original post behind a repost (stored on the reposting post's row)
+ */
+export interface DbRepostInfo {
+  original_author_name: string;
+  original_author_occupation: string;
+  original_post_urn: string;
+  original_post_link: string;
+  original_description: string;
+}
+
+export interface DbPostMention {
+  name: string;
+  profile_url: string;
+  kind: string; // 'person' | 'company'
+}
+
+export interface DbPostLink {
+  url: string;
+  link_text: string;
+  kind: string; // 'apply' | 'link'
+}
+
+export interface DbComment {
+  id: number;
+  post_id: number;
+  position: number; // 0-based order under the post
+  author_name: string;
+  author_headline: string;
+  comment_text: string;
+  relative_time: string; // LinkedIn relative time at capture, e.g. "2d"
+  captured_at: string;
+}
+
+/**
+ * One run of a search query (a batch search records one run per query)
+ */
+export interface DbSearchRun {
+  id: number;
+  query: string; // compiled LinkedIn query string
+  facets: string; // JSON-encoded SearchFacets
+  extraction_mode: string;
+  started_at: string;
+  finished_at: string;
+  duration_ms: number;
+  urns_found: number; // unique posts the search surfaced
+  new_posts: number; // posts added to the database
+  duplicates: number; // posts skipped as already known or already found by an earlier query of the batch
+  failures: number; // posts that failed extraction
+  error: string; // '' unless the run itself failed
+}
+
+/**
+ * Search run with the number of posts linked to it
+ */
+export interface DbSearchRunWithPosts extends DbSearchRun {
+  linked_posts: number;
+}
+
+/**
+ * A named search that can be re-run on demand or on a schedule
+ */
+export interface DbSavedSearch {
+  id: number;
+  name: string;
+  keywords: string; // compiled LinkedIn query string
+  facets: string; // JSON-encoded SearchFacets
+  pagination: number;
+  target_count: number | null;
+  extraction_mode: string;
+  interval_minutes: number; // 0 = manual runs only
+  enabled: number; // 0 or 1, disabled searches are skipped by the scheduler
+  created_at: string;
+  updated_at: string;
+  next_run_at: string | null; // null when not scheduled
+  last_run_at: string | null;
+  last_run_id: number | null; // search_runs.id of the last run
+  last_status: string; // '' (never run), 'ok' or 'error'
+  last_error: string;
+  last_new_posts: number;
+}
+
+/**
+ * A profile or company page whose activity feed is checked for new posts
+ */
+export interface DbWatchedEntity {
+  id: number;
+  kind: string; // 'person' | 'company'
+  name: string;
+  profile_url: string; // canonical profile/company page URL
+  added_at: string;
+  last_checked_at: string | null;
+  last_run_id: number | null; // search_runs.id of the last check
+  last_status: string; // '' (never checked), 'ok' or 'error'
+  last_error: string;
+  last_new_posts: number;
+  post_count: number; // posts tagged with the entity (computed)
+}
+
+/**
+ * Saved search fields set by the user
+ */
+export type SavedSearchInput = Pick<
+  DbSavedSearch,
+  'name' | 'keywords' | 'facets' | 'pagination' | 'target_count' | 'extraction_mode' | 'interval_minutes' | 'enabled'
+>;
+
+/**
+ * Post row with the entities extracted from its commentary
+ */
+export interface DbPostWithEntities extends DbPost {
+  hashtags: string[];
+  mentions: DbPostMention[];
+  links: DbPostLink[];
+  captured_comments: number; // rows in the comments table (load them with getPostComments)
+  author_profile_url: string; // '' when the post has no linked author
+  search_runs: number[]; // IDs of the search runs that found the post (oldest first)
+  search_queries: string[]; // distinct queries of those runs
+  watched_entity_name: string; // '' when the post isn't from a watched feed
+}
+
+/**
+ * Insert a single post into database
+ * Returns the inserted post's ID, or null if duplicate (UNIQUE constraint on post_link)
+ */
+export async function insertPost(
+  keywords: string,
+  link: string,
+  description: string,
+  searchDate: string,
+  applied: boolean = false,
+  profileImage: string = '',
+  authorName: string = '',
+  authorOccupation: string = '',
+  postDate: string = '',
+  likeCount: string = '',
+  commentCount: string = '',
+  saved: boolean = false,
+  searchFacets: string = '',
+  source: string = ''
+): Promise<number | null> {
+  const db = await getDatabase();
+  
+  try {
+    db.run(
+      `INSERT INTO posts (search_keywords, post_link, description, search_date, applied, saved, profile_image, author_name, author_occupation, post_date, like_count, comment_count, search_facets, posted_at, like_count_num, comment_count_num, source)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        keywords, 
+        link, 
+        description, 
+        searchDate, 
+        applied ? 1 : 0,
+        saved ? 1 : 0,
+        profileImage,
+        authorName,
+        authorOccupation,
+        postDate,
+        likeCount,
+        commentCount,
+        searchFacets,
+        computePostedAt(postDate, searchDate),
+        parseEngagementCount(likeCount),
+        parseEngagementCount(commentCount),
+        source
+      ]
+    );
+    
+    // Get the last inserted row ID
+    const result = db.exec('SELECT last_insert_rowid() as id');
+    saveDatabase();
+    
+    if (result.length > 0 && result[0].values.length > 0) {
+      return result[0].values[0][0] as number;
+    }
+    return null;
+  } catch (error: any) {
+    // UNIQUE constraint violation
+    if (error.message && error.message.includes('UNIQUE constraint failed')) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Get all posts from database, ordered by date (newest first)
+ */
+export async function getAllPosts(): Promise<DbPost[]> {
+  const db = await getDatabase();
+  const result = db.exec('SELECT * FROM posts ORDER BY search_date DESC');
+  
+  if (result.length === 0) {
+    return [];
+  }
+  
+  return resultToObjects(result[0]) as DbPost[];
+}
+
+/**
+ * Count total posts in database with optional filters
+ */
+export async function countPosts(params?: {
+  keyword?: string;
+  runId?: number;
+  source?: string;
+  contains?: string;
+  author?: string;
+  applied?: boolean;
+  saved?: boolean;
+  postedAfter?: string;
+  postedBefore?: string;
+  minLikes?: number;
+  minComments?: number;
+}): Promise<number> {
+  const db = await getDatabase();
+  
+  let sql = 'SELECT COUNT(*) as count FROM posts WHERE 1=1';
+  const bindings: any[] = [];
+  
+  if (params) {
+    // Filter by keyword (stored keywords or any search run that found the post)
+    if (params.keyword) {
+      sql += ` AND ${KEYWORD_FILTER_SQL}`;
+      const searchPattern = `%${params.keyword}%`;
+      bindings.push(searchPattern, searchPattern);
+    }
+    
+    // Filter by search run
+    if (params.runId !== undefined) {
+      sql += ` AND ${RUN_FILTER_SQL}`;
+      bindings.push(params.runId);
+    }
+    
+    // Filter by source ('manual' for posts added by link)
+    if (params.source !== undefined) {
+      sql += ` AND source = ?`;
+      bindings.push(params.source);
+    }
+    
+    // Filter by content
+    if (params.contains) {
+      sql += ` AND description LIKE ?`;
+      const searchPattern = `%${params.contains}%`;
+      bindings.push(searchPattern);
+    }
+    
+    // Filter by author
+    if (params.author) {
+      sql += ` AND ${AUTHOR_FILTER_SQL}`;
+      bindings.push(...authorFilterBindings(params.author));
+    }
+    
+    // Filter by applied status
+    if (params.applied !== undefined) {
+      sql += ` AND applied = ?`;
+      bindings.push(params.applied ? 1 : 0);
+    }
+    
+    // Filter by saved status
+    if (params.saved !== undefined) {
+      sql += ` AND saved = ?`;
+      bindings.push(params.saved ? 1 : 0);
+    }
+    
+    // Filter by post age and engagement (posts without parsed values are excluded)
+    sql += postAgeAndEngagementFilterSql(params, bindings);
+  }
+  
+  const result = db.exec(sql, bindings);
+  
+  if (result.length > 0 && result[0].values.length > 0) {
+    return result[0].values[0][0] as number;
+  }
+  return 0;
+}
+
+/**
+ * Check if a post link already exists in database
+ */
+export async function postExists(link: string): Promise<boolean> {
+  const db = await getDatabase();
+  const result = db.exec('SELECT 1 FROM posts WHERE post_link = ?', [link]);
+  return result.length > 0 && result[0].values.length > 0;
+}
+
+/**
+ * Check which of the given post links already exist in database (batch version of postExists)
+ */
+export async function getExistingPostLinks(links: string[]): Promise<Set<string>> {
+  const existing = new Set<string>();
+  
+  if (links.length === 0) {
+    return existing;
+  }
+  
+  const db = await getDatabase();
+  
+  forEachInListChunk(links, (chunk, placeholders) => {
+    const result = db.exec(`SELECT post_link FROM posts WHERE post_link IN (${placeholders})`, chunk);
+    
+    if (result.length > 0) {
+      result[0].values.forEach(row => existing.add(row[0] as string));
+    }
+  });
+  
+  return existing;
+}
+
+/**
+ * Refresh the scraped content of an existing post (matched by link)
+ * Leaves tracking fields (applied, saved, keywords) untouched
+ * `seenAt` is when the post was scraped, the reference for its relative post date
+ * Returns true if updated, false if not found
+ */
+export async function refreshScrapedPost(
+  link: string,
+  description: string,
+  profileImage: string = '',
+  authorName: string = '',
+  authorOccupation: string = '',
+  postDate: string = '',
+  likeCount: string = '',
+  commentCount: string = '',
+  seenAt: string = new Date().toISOString()
+): Promise<boolean> {
+  const db = await getDatabase();
+  
+  // Check if exists first
+  if (!await postExists(link)) {
+    return false;
+  }
+  
+  db.run(
+    `UPDATE posts 
+     SET description = ?,
+         profile_image = ?,
+         author_name = ?,
+         author_occupation = ?,
+         post_date = ?,
+         like_count = ?,
+         comment_count = ?,
+         posted_at = ?,
+         like_count_num = ?,
+         comment_count_num = ?
+     WHERE post_link = ?`,
+    [
+      description,
+      profileImage,
+      authorName,
+      authorOccupation,
+      postDate,
+      likeCount,
+      commentCount,
+      computePostedAt(postDate, seenAt),
+      parseEngagementCount(likeCount),
+      parseEngagementCount(commentCount),
+      link
+    ]
+  );
+  
+  saveDatabase();
+  return true;
+}
+
+/**
+ * Get a post's ID by its link
+ * Returns null if not found
+ */
+export async function getPostIdByLink(link: string): Promise<number | null> {
+  const db = await getDatabase();
+  const result = db.exec('SELECT id FROM posts WHERE post_link = ?', [link]);
+  
+  if (result.length === 0 || result[0].values.length === 0) {
+    return null;
+  }
+  return result[0].values[0][0] as number;
+}
+
+/**
+ * Insert or update an author (matched by profile URL)
+ * Name, headline and image are overwritten with the latest non-empty values
+ * Returns the author's ID
+ */
+export async function upsertAuthor(
+  profileUrl: string,
+  authorUrn: string = '',
+  name: string = '',
+  occupation: string = '',
+  profileImage: string = '',
+  seenAt: string = new Date().toISOString()
+): Promise<number> {
+  const db = await getDatabase();
+  
+  db.run(
+    `INSERT INTO authors (profile_url, author_urn, name, occupation, profile_image, first_seen, last_seen)
+     VALUES (?, ?, ?, ?, ?, ?, ?)
+     ON CONFLICT(profile_url) DO UPDATE SET
+       author_urn = CASE WHEN excluded.author_urn != '' THEN excluded.author_urn ELSE author_urn END,
+       name = CASE WHEN excluded.name != '' THEN excluded.name ELSE name END,
+       occupation = CASE WHEN excluded.occupation != '' THEN excluded.occupation ELSE occupation END,
+       profile_image = CASE WHEN excluded.profile_image != '' THEN excluded.profile_image ELSE profile_image END,
+       last_seen = excluded.last_seen`,
+    [profileUrl, authorUrn, name, occupation, profileImage, seenAt, seenAt]
+  );
+  
+  const result = db.exec('SELECT id FROM authors WHERE profile_url = ?', [profileUrl]);
+  saveDatabase();
+  return result[0].values[0][0] as number;
+}
+
+/**
+ * Link a post to its author
+ */
+export async function setPostAuthor(postId: number, authorId: number): Promise<void> {
+  const db = await getDatabase();
+  db.run('UPDATE posts SET author_id = ? WHERE id = ?', [authorId, postId]);
+  saveDatabase();
+}
+
+/**
+ * Store the file name of a post's screenshot
+ */
+export async function setPostScreenshot(postId: number, filename: string): Promise<void> {
+  const db = await getDatabase();
+  db.run('UPDATE posts SET screenshot = ? WHERE id = ?', [filename, postId]);
+  saveDatabase();
+}
+
+/**
+ * Store (or clear, with null) the original post behind a repost
+ */
+export async function updateRepostInfo(postId: number, repost: DbRepostInfo | null): Promise<void> {
+  const db = await getDatabase();
+  
+  db.run(
+    `UPDATE posts 
+     SET is_repost = ?,
+         original_author_name = ?,
+         original_author_occupation = ?,
+         original_post_urn = ?,
+         original_post_link = ?,
+         original_description = ?
+     WHERE id = ?`,
+    [
+      repost ? 1 : 0,
+      repost?.original_author_name ?? '',
+      repost?.original_author_occupation ?? '',
+      repost?.original_post_urn ?? '',
+      repost?.original_post_link ?? '',
+      repost?.original_description ?? '',
+      postId
+    ]
+  );
+  
+  saveDatabase();
+}
+
+/**
+ * Replace the hashtags, mentions and links stored for a post
+ */
+export async function replacePostEntities(
+  postId: number,
+  hashtags: string[],
+  mentions: DbPostMention[],
+  links: DbPostLink[]
+): Promise<void> {
+  const db = await getDatabase();
+  
+  for (const table of ['post_hashtags', 'post_mentions', 'post_links']) {
+    db.run(`DELETE FROM ${table} WHERE post_id = ?`, [postId]);
+  }
+  
+  for (const tag of hashtags) {
+    db.run('INSERT OR IGNORE INTO post_hashtags (post_id, tag) VALUES (?, ?)', [postId, tag]);
+  }
+  for (const mention of mentions) {
+    db.run(
+      'INSERT OR IGNORE INTO post_mentions (post_id, name, profile_url, kind) VALUES (?, ?, ?, ?)',
+      [postId, mention.name, mention.profile_url, mention.kind]
+    );
+  }
+  for (const link of links) {
+    db.run(
+      'INSERT OR IGNORE INTO post_links (post_id, url, link_text, kind) VALUES (?, ?, ?, ?)',
+      [postId, link.url, link.link_text, link.kind]
+    );
+  }
+  
+  saveDatabase();
+}
+
+/**
+ * Replace the comments stored for a post
+ */
+export async function replacePostComments(
+  postId: number,
+  comments: Pick<DbComment, 'author_name' | 'author_headline' | 'comment_text' | 'relative_time'>[],
+  capturedAt: string
+): Promise<void> {
+  const db = await getDatabase();
+  
+  db.run('DELETE FROM comments WHERE post_id = ?', [postId]);
+  comments.forEach((comment, position) => {
+    db.run(
+      `INSERT INTO comments (post_id, position, author_name, author_headline, comment_text, relative_time, captured_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      [postId, position, comment.author_name, comment.author_headline, comment.comment_text, comment.relative_time, capturedAt]
+    );
+  });
+  
+  saveDatabase();
+}
+
+/**
+ * Get the comments of several posts, keyed by post ID (in their original order)
+ */
+export async function getCommentsForPosts(postIds: number[]): Promise<Map<number, DbComment[]>> {
+  const byPost = new Map<number, DbComment[]>();
+  
+  if (postIds.length === 0) {
+    return byPost;
+  }
+  
+  const db = await getDatabase();
+  forEachInListChunk(postIds, (chunk, placeholders) => {
+    const result = db.exec(
+      `SELECT * FROM comments WHERE post_id IN (${placeholders}) ORDER BY post_id, position`,
+      chunk
+    );
+    
+    if (result.length > 0) {
+      (resultToObjects(result[0]) as DbComment[]).forEach(comment => {
+        const list = byPost.get(comment.post_id) ?? [];
+        list.push(comment);
+        byPost.set(comment.post_id, list);
+      });
+    }
+  });
+  
+  return byPost;
+}
+
+/**
+ * Get a post's comments (in their original order)
+ */
+export async function getPostComments(postId: number): Promise<DbComment[]> {
+  return (await getCommentsForPosts([postId])).get(postId) ?? [];
+}
+
+/**
+ * Attach hashtags, mentions, links, search runs and the captured comment count to posts (one query per table)
+ */
+export async function attachPostEntities(posts: DbPost[]): Promise<DbPostWithEntities[]> {
+  const withEntities: DbPostWithEntities[] = posts.map(post => ({
+    ...post,
+    hashtags: [],
+    mentions: [],
+    links: [],
+    captured_comments: 0,
+    author_profile_url: '',
+    search_runs: [],
+    search_queries: [],
+    watched_entity_name: ''
+  }));
+  
+  if (posts.length === 0) {
+    return withEntities;
+  }
+  
+  const db = await getDatabase();
+  const byId = new Map(withEntities.map(post => [post.id, post]));
+  
+  forEachInListChunk(posts.map(post => post.id), (chunk, placeholders) => {
+    const hashtagRows = db.exec(`SELECT post_id, tag FROM post_hashtags WHERE post_id IN (${placeholders}) ORDER BY id`, chunk);
+    if (hashtagRows.length > 0) {
+      resultToObjects(hashtagRows[0]).forEach(row => byId.get(row.post_id)?.hashtags.push(row.tag));
+    }
+    
+    const mentionRows = db.exec(`SELECT post_id, name, profile_url, kind FROM post_mentions WHERE post_id IN (${placeholders}) ORDER BY id`, chunk);
+    if (mentionRows.length > 0) {
+      resultToObjects(mentionRows[0]).forEach(({ post_id, ...mention }) => byId.get(post_id)?.mentions.push(mention));
+    }
+    
+    const linkRows = db.exec(`SELECT post_id, url, link_text, kind FROM post_links WHERE post_id IN (${placeholders}) ORDER BY id`, chunk);
+    if (linkRows.length > 0) {
+      resultToObjects(linkRows[0]).forEach(({ post_id, ...link }) => byId.get(post_id)?.links.push(link));
+    }
+    
+    const authorRows = db.exec(
+      `SELECT posts.id, authors.profile_url FROM posts JOIN authors ON authors.id = posts.author_id WHERE posts.id IN (${placeholders})`,
+      chunk
+    );
+    if (authorRows.length > 0) {
+      authorRows[0].values.forEach(([postId, profileUrl]) => {
+        const post = byId.get(postId as number);
+        if (post) post.author_profile_url = profileUrl as string;
+      });
+    }
+    
+    const watchedRows = db.exec(
+      `SELECT posts.id, watched_entities.name FROM posts JOIN watched_entities ON watched_entities.id = posts.watched_entity_id WHERE posts.id IN (${placeholders})`,
+      chunk
+    );
+    if (watchedRows.length > 0) {
+      watchedRows[0].values.forEach(([postId, name]) => {
+        const post = byId.get(postId as number);
+        if (post) post.watched_entity_name = name as string;
+      });
+    }
+    
+    const runRows = db.exec(
+      `SELECT search_run_posts.post_id, search_runs.id, search_runs.query FROM search_run_posts
+       JOIN search_runs ON search_runs.id = search_run_posts.run_id
+       WHERE search_run_posts.post_id IN (${placeholders}) ORDER BY search_runs.id`,
+      chunk
+    );
+    if (runRows.length > 0) {
+      runRows[0].values.forEach(([postId, runId, query]) => {
+        const post = byId.get(postId as number);
+        if (!post) return;
+        post.search_runs.push(runId as number);
+        if (!post.search_queries.includes(query as string)) post.search_queries.push(query as string);
+      });
+    }
+    
+    const commentCounts = db.exec(`SELECT post_id, COUNT(*) FROM comments WHERE post_id IN (${placeholders}) GROUP BY post_id`, chunk);
+    if (commentCounts.length > 0) {
+      commentCounts[0].values.forEach(([postId, count]) => {
+        const post = byId.get(postId as number);
+        if (post) post.captured_comments = count as number;
+      });
+    }
+  });
+  
+  return withEntities;
+}
+
+/**
+ * Record a search run
+ * Returns the run's ID
+ */
+export async function insertSearchRun(run: Omit<DbSearchRun, 'id'>): Promise<number> {
+  const db = await getDatabase();
+  
+  db.run(
+    `INSERT INTO search_runs (query, facets, extraction_mode, started_at, finished_at, duration_ms, urns_found, new_posts, duplicates, failures, error)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    [
+      run.query,
+      run.facets,
+      run.extraction_mode,
+      run.started_at,
+      run.finished_at,
+      run.duration_ms,
+      run.urns_found,
+      run.new_posts,
+      run.duplicates,
+      run.failures,
+      run.error
+    ]
+  );
+  
+  const result = db.exec('SELECT last_insert_rowid() as id');
+  saveDatabase();
+  return result[0].values[0][0] as number;
+}
+
+/**
+ * Link a search run to the stored posts with these links (links not in the database are ignored)
+ * Returns the number of posts linked
+ */
+export async function linkSearchRunPosts(runId: number, links: string[]): Promise<number> {
+  const db = await getDatabase();
+  let linked = 0;
+  
+  forEachInListChunk(links, (chunk, placeholders) => {
+    db.run(
+      `INSERT OR IGNORE INTO search_run_posts (run_id, post_id)
+       SELECT ?, id FROM posts WHERE post_link IN (${placeholders})`,
+      [runId, ...chunk]
+    );
+    linked += db.getRowsModified();
+  });
+  
+  saveDatabase();
+  return linked;
+}
+
+/**
+ * List search runs, newest first, optionally only those whose query contains `query`
+ */
+export async function listSearchRuns(params: {
+  query?: string;
+  limit?: number;
+  offset?: number;
+} = {}): Promise<DbSearchRunWithPosts[]> {
+  const db = await getDatabase();
+  
+  let sql = `SELECT search_runs.*, (SELECT COUNT(*) FROM search_run_posts WHERE run_id = search_runs.id) AS linked_posts
+             FROM search_runs WHERE 1=1`;
+  const bindings: any[] = [];
+  
+  if (params.query) {
+    sql += ' AND query LIKE ?';
+    bindings.push(`%${params.query}%`);
+  }
+  
+  sql += ' ORDER BY started_at DESC, id DESC';
+  
+  if (params.limit) {
+    sql += ' LIMIT ?';
+    bindings.push(params.limit);
+  }
+  
+  if (params.offset) {
+    sql += ' OFFSET ?';
+    bindings.push(params.offset);
+  }
+  
+  const result = db.exec(sql, bindings);
+  
+  if (result.length === 0) {
+    return [];
+  }
+  
+  return resultToObjects(result[0]) as DbSearchRunWithPosts[];
+}
+
+/**
+ * Get a single search run by ID
+ */
+export async function getSearchRunById(id: number): Promise<DbSearchRunWithPosts | null> {
+  const db = await getDatabase();
+  const result = db.exec(
+    `SELECT search_runs.*, (SELECT COUNT(*) FROM search_run_posts WHERE run_id = search_runs.id) AS linked_posts
+     FROM search_runs WHERE id = ?`,
+    [id]
+  );
+  
+  if (result.length === 0 || result[0].values.length === 0) {
+    return null;
+  }
+  
+  return (resultToObjects(result[0]) as DbSearchRunWithPosts[])[0] || null;
+}
+
+/**
+ * Count search runs, optionally only those whose query contains `query`
+ */
+export async function countSearchRuns(query?: string): Promise<number> {
+  const db = await getDatabase();
+  const result = query
+    ? db.exec('SELECT COUNT(*) FROM search_runs WHERE query LIKE ?', [`%${query}%`])
+    : db.exec('SELECT COUNT(*) FROM search_runs');
+  
+  if (result.length > 0 && result[0].values.length > 0) {
+    return result[0].values[0][0] as number;
+  }
+  return 0;
+}
+
+/**
+ * Create a saved search, scheduled one interval from now when it has an interval
+ * Returns the saved search's ID
+ * @throws Error if the name is already taken
+ */
+export async function insertSavedSearch(search: SavedSearchInput): Promise<number> {
+  const db = await getDatabase();
+  const now = new Date().toISOString();
+  
+  if (await getSavedSearchByName(search.name)) {
+    throw new Error(`A saved search named "${search.name}" already exists`);
+  }
+  
+  db.run(
+    `INSERT INTO saved_searches (name, keywords, facets, pagination, target_count, extraction_mode, interval_minutes, enabled, created_at, updated_at, next_run_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    [
+      search.name,
+      search.keywords,
+      search.facets,
+      search.pagination,
+      search.target_count,
+      search.extraction_mode,
+      search.interval_minutes,
+      search.enabled,
+      now,
+      now,
+      nextSavedSearchRun(search.interval_minutes, search.enabled, now)
+    ]
+  );
+  
+  const result = db.exec('SELECT last_insert_rowid() as id');
+  saveDatabase();
+  return result[0].values[0][0] as number;
+}
+
+/**
+ * Update the user-set fields of a saved search
+ * Changing the interval or enabling it reschedules it from its last run (or from now)
+ * Returns false if not found
+ * @throws Error if the new name is already taken
+ */
+export async function updateSavedSearch(id: number, changes: Partial<SavedSearchInput>): Promise<boolean> {
+  const db = await getDatabase();
+  const existing = await getSavedSearchById(id);
+  
+  if (!existing) {
+    return false;
+  }
+  
+  if (changes.name !== undefined && changes.name !== existing.name) {
+    if (await getSavedSearchByName(changes.name)) {
+      throw new Error(`A saved search named "${changes.name}" already exists`);
+    }
+  }
+  
+  const updated = { ...existing, ...changes };
+  const now = new Date().toISOString();
+  const nextRunAt = changes.interval_minutes !== undefined || changes.enabled !== undefined
+    ? nextSavedSearchRun(updated.interval_minutes, updated.enabled, updated.last_run_at ?? now)
+    : existing.next_run_at;
+  
+  db.run(
+    `UPDATE saved_searches
+     SET name = ?, keywords = ?, facets = ?, pagination = ?, target_count = ?, extraction_mode = ?,
+         interval_minutes = ?, enabled = ?, updated_at = ?, next_run_at = ?
+     WHERE id = ?`,
+    [
+      updated.name,
+      updated.keywords,
+      updated.facets,
+      updated.pagination,
+      updated.target_count,
+      updated.extraction_mode,
+      updated.interval_minutes,
+      updated.enabled,
+      now,
+      nextRunAt,
+      id
+    ]
+  );
+  
+  saveDatabase();
+  return true;
+}
+
+/**
+ * Record the outcome of a saved search run and schedule the next one
+ */
+export async function recordSavedSearchRun(
+  id: number,
+  outcome: { runAt: string; runId: number | null; status: 'ok' | 'error'; error: string; newPosts: number }
+): Promise<void> {
+  const db = await getDatabase();
+  const existing = await getSavedSearchById(id);
+  
+  if (!existing) {
+    return;
+  }
+  
+  db.run(
+    `UPDATE saved_searches
+     SET last_run_at = ?, last_run_id = ?, last_status = ?, last_error = ?, last_new_posts = ?, next_run_at = ?
+     WHERE id = ?`,
+    [
+      outcome.runAt,
+      outcome.runId,
+      outcome.status,
+      outcome.error,
+      outcome.newPosts,
+      nextSavedSearchRun(existing.interval_minutes, existing.enabled, outcome.runAt),
+      id
+    ]
+  );
+  
+  saveDatabase();
 }
 
 /**
- * Insert a single post into database
- * Returns the inserted post's ID, or null if duplicate (UNIQUE constraint on post_link)
+ * Delete a saved search (its recorded search runs are kept)
+ * Returns true if deleted, false if not found
  */
-export async function insertPost(
-  keywords: string,
-  link: string,
-  description: string,
-  searchDate: string,
-  applied: boolean = false,
-  profileImage: string = '',
-  authorName: string = '',
-  authorOccupation: string = '',
-  postDate: string = '',
-  likeCount: string = '',
-  commentCount: string = '',
-  saved: boolean = false
-): Promise<number | null> {
+export async function deleteSavedSearch(id: number): Promise<boolean> {
   const db = await getDatabase();
+  db.run('DELETE FROM saved_searches WHERE id = ?', [id]);
+  const deleted = db.getRowsModified() > 0;
   
-  try {
-    db.run(
-      `INSERT INTO posts (search_keywords, post_link, description, search_date, applied, saved, profile_image, author_name, author_occupation, post_date, like_count, comment_count)
-       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
-      [
-        keywords, 
-        link, 
-        description, 
-        searchDate, 
-        applied ? 1 : 0,
-        saved ? 1 : 0,
-        profileImage,
-        authorName,
-        authorOccupation,
-        postDate,
-        likeCount,
-        commentCount
-      ]
-    );
-    
-    // Get the last inserted row ID
-    const result = db.exec('SELECT last_insert_rowid() as id');
+  if (deleted) {
     saveDatabase();
-    
-    if (result.length > 0 && result[0].values.length > 0) {
-      return result[0].values[0][0] as number;
-    }
+  }
+  return deleted;
+}
+
+/**
+ * Get a single saved search by ID
+ */
+export async function getSavedSearchById(id: number): Promise<DbSavedSearch | null> {
+  const db = await getDatabase();
+  const result = db.exec('SELECT * FROM saved_searches WHERE id = ?', [id]);
+  
+  if (result.length === 0 || result[0].values.length === 0) {
     return null;
-  } catch (error: any) {
-    // UNIQUE constraint violation
-    if (error.message && error.message.includes('UNIQUE constraint failed')) {
-      return null;
-    }
-    throw error;
   }
+  
+  return (resultToObjects(result[0]) as DbSavedSearch[])[0] || null;
 }
 
 /**
- * Get all posts from database, ordered by date (newest first)
+ * Get a single saved search by name (case-insensitive)
  */
-export async function getAllPosts(): Promise<DbPost[]> {
+export async function getSavedSearchByName(name: string): Promise<DbSavedSearch | null> {
   const db = await getDatabase();
-  const result = db.exec('SELECT * FROM posts ORDER BY search_date DESC');
+  const result = db.exec('SELECT * FROM saved_searches WHERE name = ? COLLATE NOCASE', [name]);
+  
+  if (result.length === 0 || result[0].values.length === 0) {
+    return null;
+  }
+  
+  return (resultToObjects(result[0]) as DbSavedSearch[])[0] || null;
+}
+
+/**
+ * List all saved searches by name
+ */
+export async function listSavedSearches(): Promise<DbSavedSearch[]> {
+  const db = await getDatabase();
+  const result = db.exec('SELECT * FROM saved_searches ORDER BY name COLLATE NOCASE');
   
   if (result.length === 0) {
     return [];
   }
   
-  return resultToObjects(result[0]) as DbPost[];
+  return resultToObjects(result[0]) as DbSavedSearch[];
 }
 
 /**
- * Count total posts in database with optional filters
+ * Get the enabled, scheduled saved searches due at `now` (ISO), most overdue first
  */
-export async function countPosts(params?: {
-  keyword?: string;
-  contains?: string;
-  applied?: boolean;
-  saved?: boolean;
-}): Promise<number> {
+export async function getDueSavedSearches(now: string): Promise<DbSavedSearch[]> {
   const db = await getDatabase();
+  const result = db.exec(
+    `SELECT * FROM saved_searches
+     WHERE enabled = 1 AND interval_minutes > 0 AND next_run_at IS NOT NULL AND next_run_at <= ?
+     ORDER BY next_run_at`,
+    [now]
+  );
   
-  let sql = 'SELECT COUNT(*) as count FROM posts WHERE 1=1';
-  const bindings: any[] = [];
+  if (result.length === 0) {
+    return [];
+  }
   
-  if (params) {
-    // Filter by keyword
-    if (params.keyword) {
-      sql += ` AND search_keywords LIKE ?`;
-      const searchPattern = `%${params.keyword}%`;
-      bindings.push(searchPattern);
-    }
-    
-    // Filter by content
-    if (params.contains) {
-      sql += ` AND description LIKE ?`;
-      const searchPattern = `%${params.contains}%`;
-      bindings.push(searchPattern);
-    }
-    
-    // Filter by applied status
-    if (params.applied !== undefined) {
-      sql += ` AND applied = ?`;
-      bindings.push(params.applied ? 1 : 0);
-    }
-    
-    // Filter by saved status
-    if (params.saved !== undefined) {
-      sql += ` AND saved = ?`;
-      bindings.push(params.saved ? 1 : 0);
-    }
+  return resultToObjects(result[0]) as DbSavedSearch[];
+}
+
+// Watched entities with the number of posts tagged with each
+const WATCHED_ENTITY_SELECT_SQL = `SELECT watched_entities.*,
+  (SELECT COUNT(*) FROM posts WHERE posts.watched_entity_id = watched_entities.id) AS post_count
+  FROM watched_entities`;
+
+/**
+ * Add a profile or company page to the watch list
+ * Returns the entity's ID
+ * @throws Error if the page is already watched
+ */
+export async function insertWatchedEntity(entity: { kind: string; name: string; profile_url: string }): Promise<number> {
+  const db = await getDatabase();
+  
+  const existing = await getWatchedEntityByUrl(entity.profile_url);
+  if (existing) {
+    throw new Error(`${entity.profile_url} is already watched (as "${existing.name}")`);
   }
   
-  const result = db.exec(sql, bindings);
+  db.run(
+    'INSERT INTO watched_entities (kind, name, profile_url, added_at) VALUES (?, ?, ?, ?)',
+    [entity.kind, entity.name, entity.profile_url, new Date().toISOString()]
+  );
   
-  if (result.length > 0 && result[0].values.length > 0) {
-    return result[0].values[0][0] as number;
+  const result = db.exec('SELECT last_insert_rowid() as id');
+  saveDatabase();
+  return result[0].values[0][0] as number;
+}
+
+/**
+ * Remove a profile or company page from the watch list
+ * Its posts are kept, no longer tagged with it
+ * Returns true if deleted, false if not found
+ */
+export async function deleteWatchedEntity(id: number): Promise<boolean> {
+  const db = await getDatabase();
+  db.run('DELETE FROM watched_entities WHERE id = ?', [id]);
+  const deleted = db.getRowsModified() > 0;
+  
+  if (deleted) {
+    db.run('UPDATE posts SET watched_entity_id = NULL WHERE watched_entity_id = ?', [id]);
+    saveDatabase();
   }
-  return 0;
+  return deleted;
 }
 
 /**
- * Check if a post link already exists in database
+ * Get a single watched entity by ID
  */
-export async function postExists(link: string): Promise<boolean> {
+export async function getWatchedEntityById(id: number): Promise<DbWatchedEntity | null> {
   const db = await getDatabase();
-  const result = db.exec('SELECT 1 FROM posts WHERE post_link = ?', [link]);
-  return result.length > 0 && result[0].values.length > 0;
+  const result = db.exec(`${WATCHED_ENTITY_SELECT_SQL} WHERE id = ?`, [id]);
+  
+  if (result.length === 0 || result[0].values.length === 0) {
+    return null;
+  }
+  
+  return (resultToObjects(result[0]) as DbWatchedEntity[])[0] || null;
+}
+
+/**
+ * Get a single watched entity by its canonical profile URL
+ */
+export async function getWatchedEntityByUrl(profileUrl: string): Promise<DbWatchedEntity | null> {
+  const db = await getDatabase();
+  const result = db.exec(`${WATCHED_ENTITY_SELECT_SQL} WHERE profile_url = ?`, [profileUrl]);
+  
+  if (result.length === 0 || result[0].values.length === 0) {
+    return null;
+  }
+  
+  return (resultToObjects(result[0]) as DbWatchedEntity[])[0] || null;
+}
+
+/**
+ * Get a single watched entity by name (case-insensitive; the first one added when names repeat)
+ */
+export async function getWatchedEntityByName(name: string): Promise<DbWatchedEntity | null> {
+  const db = await getDatabase();
+  const result = db.exec(`${WATCHED_ENTITY_SELECT_SQL} WHERE name = ? COLLATE NOCASE ORDER BY id LIMIT 1`, [name]);
+  
+  if (result.length === 0 || result[0].values.length === 0) {
+    return null;
+  }
+  
+  return (resultToObjects(result[0]) as DbWatchedEntity[])[0] || null;
+}
+
+/**
+ * List the watch list by name
+ */
+export async function listWatchedEntities(): Promise<DbWatchedEntity[]> {
+  const db = await getDatabase();
+  const result = db.exec(`${WATCHED_ENTITY_SELECT_SQL} ORDER BY name COLLATE NOCASE`);
+  
+  if (result.length === 0) {
+    return [];
+  }
+  
+  return resultToObjects(result[0]) as DbWatchedEntity[];
+}
+
+/**
+ * Record the outcome of checking a watched entity's feed
+ */
+export async function recordWatchedEntityCheck(
+  id: number,
+  outcome: { checkedAt: string; runId: number | null; status: 'ok' | 'error'; error: string; newPosts: number }
+): Promise<void> {
+  const db = await getDatabase();
+  
+  db.run(
+    `UPDATE watched_entities
+     SET last_checked_at = ?, last_run_id = ?, last_status = ?, last_error = ?, last_new_posts = ?
+     WHERE id = ?`,
+    [outcome.checkedAt, outcome.runId, outcome.status, outcome.error, outcome.newPosts, id]
+  );
+  
+  saveDatabase();
+}
+
+/**
+ * Tag the stored posts with these links as found in a watched entity's feed
+ * Posts already tagged with another entity keep their tag
+ * Returns the number of posts tagged
+ */
+export async function tagWatchedPosts(entityId: number, links: string[]): Promise<number> {
+  const db = await getDatabase();
+  let tagged = 0;
+  
+  forEachInListChunk(links, (chunk, placeholders) => {
+    db.run(
+      `UPDATE posts SET watched_entity_id = ? WHERE watched_entity_id IS NULL AND post_link IN (${placeholders})`,
+      [entityId, ...chunk]
+    );
+    tagged += db.getRowsModified();
+  });
+  
+  saveDatabase();
+  return tagged;
 }
 
 /**
@@ -161,8 +1187,11 @@ export async function deletePostById(id: number): Promise<boolean> {
     return false;
   }
   
+  const screenshots = getScreenshotFilesForPosts(db, [id]);
   db.run('DELETE FROM posts WHERE id = ?', [id]);
+  deleteChildRowsForPosts(db, [id]);
   saveDatabase();
+  deleteScreenshotFiles(screenshots);
   return true;
 }
 
@@ -210,34 +1239,54 @@ export async function getPostById(id: number): Promise<DbPost | null> {
 }
 
 /**
- * Query posts with filters - supports keyword, contains, IDs, limit, offset, applied status, saved status
+ * Query posts with filters - supports keyword, search run, contains, author, IDs, limit, offset, applied status, saved status,
+ * post age (posted_at range), minimum engagement and sort order
  */
 export async function queryPosts(params: {
   ids?: number[];
   keyword?: string;
+  runId?: number;
+  source?: string;
   contains?: string;
+  author?: string;
   limit?: number;
   offset?: number;
   applied?: boolean;
   saved?: boolean;
+  postedAfter?: string;
+  postedBefore?: string;
+  minLikes?: number;
+  minComments?: number;
+  sortBy?: PostSortBy;
 }): Promise<DbPost[]> {
   const db = await getDatabase();
   
   let sql = 'SELECT * FROM posts WHERE 1=1';
   const bindings: any[] = [];
   
-  // Filter by IDs
+  // Filter by IDs (loaded into a temp table, so any number of them fits in one statement)
   if (params.ids && params.ids.length > 0) {
-    const placeholders = params.ids.map(() => '?').join(',');
-    sql += ` AND id IN (${placeholders})`;
-    bindings.push(...params.ids);
+    loadQueryIds(db, params.ids);
+    sql += ' AND id IN (SELECT id FROM temp.query_ids)';
   }
   
-  // Filter by keyword (search_keywords column)
+  // Filter by keyword (stored keywords or any search run that found the post)
   if (params.keyword) {
-    sql += ` AND search_keywords LIKE ?`;
+    sql += ` AND ${KEYWORD_FILTER_SQL}`;
     const searchPattern = `%${params.keyword}%`;
-    bindings.push(searchPattern);
+    bindings.push(searchPattern, searchPattern);
+  }
+  
+  // Filter by search run
+  if (params.runId !== undefined) {
+    sql += ` AND ${RUN_FILTER_SQL}`;
+    bindings.push(params.runId);
+  }
+  
+  // Filter by source ('manual' for posts added by link)
+  if (params.source !== undefined) {
+    sql += ` AND source = ?`;
+    bindings.push(params.source);
   }
   
   // Filter by content (description column)
@@ -247,6 +1296,12 @@ export async function queryPosts(params: {
     bindings.push(searchPattern);
   }
   
+  // Filter by author (name, profile URL or URN)
+  if (params.author) {
+    sql += ` AND ${AUTHOR_FILTER_SQL}`;
+    bindings.push(...authorFilterBindings(params.author));
+  }
+  
   // Filter by applied status
   if (params.applied !== undefined) {
     sql += ` AND applied = ?`;
@@ -259,8 +1314,11 @@ export async function queryPosts(params: {
     bindings.push(params.saved ? 1 : 0);
   }
   
-  // Order by date (newest first)
-  sql += ' ORDER BY search_date DESC';
+  // Filter by post age and engagement (posts without parsed values are excluded)
+  sql += postAgeAndEngagementFilterSql(params, bindings);
+  
+  // Order by search date (newest first) unless another order is requested
+  sql += ` ORDER BY ${SORT_SQL[params.sortBy ?? 'search_date']}`;
   
   // Limit results
   if (params.limit) {
@@ -326,23 +1384,16 @@ export async function updatePostsBulk(
   }
   
   sql += setClauses.join(', ');
-  sql += ' WHERE id IN (' + postIds.map(() => '?').join(',') + ')';
-  bindings.push(...postIds);
-  
-  // Get count before update
-  const countBefore = db.exec(
-    'SELECT COUNT(*) FROM posts WHERE id IN (' + postIds.map(() => '?').join(',') + ')',
-    postIds
-  );
   
-  db.run(sql, bindings);
+  // Deduplicated, so an ID repeated across chunks isn't counted twice
+  let updated = 0;
+  forEachInListChunk(Array.from(new Set(postIds)), (chunk, placeholders) => {
+    db.run(`${sql} WHERE id IN (${placeholders})`, [...bindings, ...chunk]);
+    updated += db.getRowsModified();
+  });
   saveDatabase();
   
-  if (countBefore.length > 0 && countBefore[0].values.length > 0) {
-    return countBefore[0].values[0][0] as number;
-  }
-  
-  return 0;
+  return updated;
 }
 
 /**
@@ -355,21 +1406,17 @@ export async function deletePostsBulk(postIds: number[]): Promise<number> {
     return 0;
   }
   
-  // Get count before delete
-  const placeholders = postIds.map(() => '?').join(',');
-  const countBefore = db.exec(
-    `SELECT COUNT(*) FROM posts WHERE id IN (${placeholders})`,
-    postIds
-  );
-  
-  db.run(`DELETE FROM posts WHERE id IN (${placeholders})`, postIds);
+  const screenshots = getScreenshotFilesForPosts(db, postIds);
+  let deleted = 0;
+  forEachInListChunk(postIds, (chunk, placeholders) => {
+    db.run(`DELETE FROM posts WHERE id IN (${placeholders})`, chunk);
+    deleted += db.getRowsModified();
+  });
+  deleteChildRowsForPosts(db, postIds);
   saveDatabase();
+  deleteScreenshotFiles(screenshots);
   
-  if (countBefore.length > 0 && countBefore[0].values.length > 0) {
-    return countBefore[0].values[0][0] as number;
-  }
-  
-  return 0;
+  return deleted;
 }
 
 /**
@@ -446,6 +1493,113 @@ export async function toggleSavedStatus(id: number): Promise<boolean | null> {
   return newStatus;
 }
 
+/**
+ * Helper function to build the bindings for AUTHOR_FILTER_SQL
+ * Profile URLs are normalized the same way the extractor stores them
+ */
+function authorFilterBindings(author: string): string[] {
+  const trimmed = author.trim();
+  const profileMatch = trimmed.match(/linkedin\.com\/(in|company|school|showcase)\/([^/?#]+)/i);
+  const profileUrl = profileMatch
+    ? `https://www.linkedin.com/${profileMatch[1].toLowerCase()}/${decodeURIComponent(profileMatch[2]).toLowerCase()}/`
+    : trimmed;
+  
+  return [`%${trimmed}%`, `%${trimmed}%`, profileUrl, trimmed];
+}
+
+/**
+ * Helper function to build the posted_at / engagement conditions (appends to bindings)
+ * Dates are compared as ISO strings, so a plain 'YYYY-MM-DD' works as a bound
+ */
+function postAgeAndEngagementFilterSql(
+  params: { postedAfter?: string; postedBefore?: string; minLikes?: number; minComments?: number },
+  bindings: any[]
+): string {
+  let sql = '';
+  
+  if (params.postedAfter) {
+    sql += ` AND posted_at >= ?`;
+    bindings.push(params.postedAfter);
+  }
+  
+  if (params.postedBefore) {
+    sql += ` AND posted_at < ?`;
+    bindings.push(params.postedBefore);
+  }
+  
+  if (params.minLikes !== undefined) {
+    sql += ` AND like_count_num >= ?`;
+    bindings.push(params.minLikes);
+  }
+  
+  if (params.minComments !== undefined) {
+    sql += ` AND comment_count_num >= ?`;
+    bindings.push(params.minComments);
+  }
+  
+  return sql;
+}
+
+/**
+ * Helper function to compute when a saved search is next due (ISO), one interval after `from`
+ * Returns null for manual-only or disabled searches
+ */
+function nextSavedSearchRun(intervalMinutes: number, enabled: number, from: string): string | null {
+  if (!enabled || intervalMinutes <= 0) {
+    return null;
+  }
+  return new Date(new Date(from).getTime() + intervalMinutes * 60 * 1000).toISOString();
+}
+
+/**
+ * Helper function to remove entity, comment and search run link rows belonging to posts (no save, callers save)
+ * sql.js has foreign keys off, so this stands in for ON DELETE CASCADE
+ */
+function deleteChildRowsForPosts(db: Database, postIds: number[]): void {
+  forEachInListChunk(postIds, (chunk, placeholders) => {
+    for (const table of ['post_hashtags', 'post_mentions', 'post_links', 'comments', 'search_run_posts']) {
+      db.run(`DELETE FROM ${table} WHERE post_id IN (${placeholders})`, chunk);
+    }
+  });
+}
+
+/**
+ * Helper function to get the screenshot file names of posts (read before deleting them)
+ */
+function getScreenshotFilesForPosts(db: Database, postIds: number[]): string[] {
+  const files: string[] = [];
+  forEachInListChunk(postIds, (chunk, placeholders) => {
+    const result = db.exec(`SELECT screenshot FROM posts WHERE id IN (${placeholders}) AND screenshot != ''`, chunk);
+    if (result.length > 0) {
+      result[0].values.forEach(row => files.push(row[0] as string));
+    }
+  });
+  return files;
+}
+
+/**
+ * Helper function to run `work` on the values in chunks of at most IN_LIST_CHUNK_SIZE,
+ * with the placeholders for the chunk's IN (...) list
+ */
+function forEachInListChunk<T>(values: T[], work: (chunk: T[], placeholders: string) => void): void {
+  for (let i = 0; i < values.length; i += IN_LIST_CHUNK_SIZE) {
+    const chunk = values.slice(i, i + IN_LIST_CHUNK_SIZE);
+    work(chunk, chunk.map(() => '?').join(','));
+  }
+}
+
+/**
+ * Helper function to load IDs into the temp table `query_ids`, for an ID filter that has to stay
+ * one statement (so sorting, limit and offset apply to the whole result)
+ */
+function loadQueryIds(db: Database, ids: number[]): void {
+  db.run('CREATE TEMP TABLE IF NOT EXISTS query_ids (id INTEGER PRIMARY KEY)');
+  db.run('DELETE FROM temp.query_ids');
+  forEachInListChunk(ids, chunk => {
+    db.run(`INSERT OR IGNORE INTO temp.query_ids (id) VALUES ${chunk.map(() => '(?)').join(',')}`, chunk);
+  });
+}
+
 /**
  * Helper function to convert sql.js QueryExecResult to array of objects
  */
@@ -8,11 +8,18 @@ import {
 } from "@modelcontextprotocol/sdk/types.js";
 
 import { handleLinkedInAuth } from './tools/authenticate.js';
-import { handleLinkedInSearchPosts } from './tools/search-posts/mcp-handler.js';
+import { handleLinkedInSearchPosts, handleLinkedInScrapePost } from './tools/search-posts/mcp-handler.js';
 import { handleLinkedInManagePosts } from './tools/posts-manager.js';
+import { handleLinkedInListSearchRuns } from './tools/search-runs.js';
+import { handleLinkedInSavedSearches } from './tools/saved-searches/mcp-handler.js';
+import { handleLinkedInWatchList } from './tools/watch-list/mcp-handler.js';
+import { startScheduler, stopScheduler } from './tools/saved-searches/scheduler.js';
 import { handleLinkedInManageFilters } from './tools/filter-manager.js';
+import { handleLinkedInManagePacing } from './tools/pacing-manager.js';
 import { startViteViewer, stopViteViewer } from './tools/start-server.js';
 import { closeDatabase } from './db/database.js';
+import { createProgressNotifier } from './utils/mcp-progress.js';
+import { shutdownBrowserPool } from './browser/browser-pool.js';
 
 // Initialize MCP server
 const server = new Server(
@@ -53,13 +60,63 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
       },
       {
         name: "search_posts",
-        description: "Search LinkedIn posts with keywords and optional pagination",
+        description: "Search LinkedIn posts with keywords, optional pagination and search facets (date posted, sort order, content type, author filters)",
         inputSchema: {
           type: "object",
           properties: {
             keywords: {
               type: "string",
-              description: "Search keywords or query (e.g., 'machine learning', '\"AI engineer\"')"
+              description: "Search keywords or query (e.g., 'machine learning', '\"AI engineer\"'). Use either keywords or query."
+            },
+            query: {
+              type: "object",
+              description: "Structured boolean query, compiled into valid LinkedIn syntax (quoting and AND/OR/NOT handled for you). Use instead of keywords.",
+              properties: {
+                all_of: {
+                  type: "array",
+                  items: { type: "string" },
+                  description: "Every term must appear (joined with AND)"
+                },
+                any_of: {
+                  type: "array",
+                  items: { type: "string" },
+                  description: "At least one term must appear (grouped with OR)"
+                },
+                none_of: {
+                  type: "array",
+                  items: { type: "string" },
+                  description: "Exclude posts containing these terms (NOT)"
+                },
+                phrases: {
+                  type: "array",
+                  items: { type: "string" },
+                  description: "Exact phrases that must appear (quoted)"
+                }
+              },
+              additionalProperties: false
+            },
+            queries: {
+              type: "array",
+              description: "Run several searches back to back in one browser session (instead of keywords/query). Each entry has its own keywords or query, pagination and facets; top-level pagination/target_count/facets are defaults. A post found by several queries is scraped once, for the first query that found it. The other options (extraction_mode, comments_limit, ...) apply to all queries.",
+              minItems: 1,
+              maxItems: 20,
+              items: {
+                type: "object",
+                properties: {
+                  keywords: { type: "string", description: "Search keywords (use either keywords or query)" },
+                  query: { type: "object", description: "Structured boolean query (all_of, any_of, none_of, phrases), same as the top-level query" },
+                  pagination: { type: "number", minimum: 1, maximum: 10 },
+                  target_count: { type: "number", minimum: 1, maximum: 200 },
+                  date_posted: { type: "string", enum: ["past-24h", "past-week", "past-month", "any"] },
+                  sort_by: { type: "string", enum: ["relevance", "date"] },
+                  content_type: { type: "string", enum: ["any", "photos", "videos", "documents", "jobs", "articles"] },
+                  from_member: { type: "array", items: { type: "string" } },
+                  author_company: { type: "array", items: { type: "string" } },
+                  author_industry: { type: "array", items: { type: "string" } },
+                  author_job_title: { type: "string" }
+                },
+                additionalProperties: false
+              }
             },
             pagination: {
               type: "number",
@@ -68,13 +125,164 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
               minimum: 1,
               maximum: 10
             },
+            target_count: {
+              type: "number",
+              description: "Keep scrolling until this many unique posts are found (overrides pagination). Stops early when no new posts appear or max_scrolls is hit.",
+              minimum: 1,
+              maximum: 200
+            },
+            max_scrolls: {
+              type: "number",
+              description: "Maximum number of scrolls when target_count is set (default: 50)",
+              default: 50,
+              minimum: 1,
+              maximum: 100
+            },
+            stall_scrolls: {
+              type: "number",
+              description: "Stop after this many consecutive scrolls without new posts (default: 3)",
+              default: 3,
+              minimum: 1,
+              maximum: 10
+            },
+            refresh_existing: {
+              type: "boolean",
+              description: "Re-scrape posts that are already in the database and refresh their content (default: false - known posts are skipped before being visited)",
+              default: false
+            },
+            post_timeout_seconds: {
+              type: "number",
+              description: "Timeout per attempt for loading and extracting a single post (default: 30)",
+              default: 30,
+              minimum: 5,
+              maximum: 180
+            },
+            max_retries: {
+              type: "number",
+              description: "Retries per post for timeouts and empty content, with backoff (default: 2). Failed posts are reported and not saved.",
+              default: 2,
+              minimum: 0,
+              maximum: 5
+            },
+            comments_limit: {
+              type: "number",
+              description: "Also capture up to this many top comments per post (author, headline, text, time). Comments often hold 'role filled', salary or contact details. Opens every post page, even in fast mode (default: 0, off)",
+              default: 0,
+              minimum: 0,
+              maximum: 50
+            },
+            screenshots: {
+              type: "boolean",
+              description: "Also save a screenshot of each post, cropped to the post, shown in the viewer. Opens every post page, even in fast mode (default: false)",
+              default: false
+            },
+            save_partial: {
+              type: "boolean",
+              description: "If the request is cancelled, save the posts extracted so far (default: true). Cancelling stops scrolling and post extraction right away and closes the browser; the search run records what was kept",
+              default: true
+            },
             headless: {
               type: "boolean",
               description: "Run browser in headless mode (default: false). Headless mode is faster and uses less resources. ",
               default: false
+            },
+            date_posted: {
+              type: "string",
+              enum: ["past-24h", "past-week", "past-month", "any"],
+              description: "Only include posts from this period (default: 'past-month')",
+              default: "past-month"
+            },
+            sort_by: {
+              type: "string",
+              enum: ["relevance", "date"],
+              description: "Sort results by relevance or by date, newest first (default: 'relevance')",
+              default: "relevance"
+            },
+            content_type: {
+              type: "string",
+              enum: ["any", "photos", "videos", "documents", "jobs", "articles"],
+              description: "Only include posts with this content type (default: 'any')",
+              default: "any"
+            },
+            from_member: {
+              type: "array",
+              items: { type: "string" },
+              description: "Only include posts from these members (LinkedIn member IDs, e.g. 'ACoAAB...')"
+            },
+            author_company: {
+              type: "array",
+              items: { type: "string" },
+              description: "Only include posts from authors working at these companies (LinkedIn company IDs, e.g. '1441')"
+            },
+            author_industry: {
+              type: "array",
+              items: { type: "string" },
+              description: "Only include posts from authors in these industries (LinkedIn industry IDs, e.g. '4' for Software Development)"
+            },
+            author_job_title: {
+              type: "string",
+              description: "Only include posts from authors with this job title (e.g., 'recruiter')"
+            },
+            extraction_mode: {
+              type: "string",
+              enum: ["full", "fast"],
+              description: "'full' opens every post page (slow, most reliable). 'fast' reads posts straight from the search result cards and only opens the post page when a card is truncated or missing fields (default: 'full')",
+              default: "full"
+            }
+          }
+        },
+      },
+      {
+        name: "scrape_post",
+        description: "Scrape specific LinkedIn posts by link (e.g. posts friends sent that never show up in searches) and save them with the source 'manual' and no search keywords (find them with manage_posts source: 'manual'). Accepts feed update URLs (linkedin.com/feed/update/urn:li:activity:...), /posts/ URLs and bare post URNs. Uses the same pacing, page-load budget and block page detection as search_posts.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            urls: {
+              type: "array",
+              items: { type: "string" },
+              description: "Post links or URNs to scrape (up to 20)",
+              minItems: 1,
+              maxItems: 20
+            },
+            refresh_existing: {
+              type: "boolean",
+              description: "Re-scrape posts that are already in the database and refresh their content (default: false - known posts are skipped)",
+              default: false
+            },
+            post_timeout_seconds: {
+              type: "number",
+              description: "Timeout per attempt for loading and extracting a single post (default: 30)",
+              default: 30,
+              minimum: 5,
+              maximum: 180
+            },
+            max_retries: {
+              type: "number",
+              description: "Retries per post for timeouts and empty content, with backoff (default: 2). Failed posts are reported and not saved.",
+              default: 2,
+              minimum: 0,
+              maximum: 5
+            },
+            comments_limit: {
+              type: "number",
+              description: "Also capture up to this many top comments per post (default: 0, off)",
+              default: 0,
+              minimum: 0,
+              maximum: 50
+            },
+            screenshots: {
+              type: "boolean",
+              description: "Also save a screenshot of each post, shown in the viewer (default: false)",
+              default: false
+            },
+            headless: {
+              type: "boolean",
+              description: "Run browser in headless mode (default: false)",
+              default: false
             }
           },
-          required: ["keywords"]
+          required: ["urls"]
         },
       },
       {
@@ -90,12 +298,24 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
             },
             keyword: {
               type: "string",
-              description: "Filter by LinkedIn search keyword column (e.g., 'python engineer', 'backend developer')"
+              description: "Filter by search query: matches the post's keywords or the query of any search run that found it (e.g., 'python engineer', 'backend developer')"
+            },
+            run_id: {
+              type: "number",
+              description: "Only posts found by this search run (see list_search_runs)"
+            },
+            source: {
+              type: "string",
+              description: "Only posts with this source: 'manual' for posts added by link with scrape_post (they have no keywords)"
             },
             contains: {
               type: "string",
               description: "Search for text within post descriptions (e.g., 'remote', '$150k', 'healthcare benefits')"
             },
+            author: {
+              type: "string",
+              description: "Filter by author: part of the name, or the exact profile URL / URN (e.g., 'https://www.linkedin.com/in/jane-doe/')"
+            },
             ids: {
               type: "array",
               items: { type: "number" },
@@ -121,6 +341,177 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
             saved: {
               type: "boolean",
               description: "Filter by saved status: true for saved, false for not saved"
+            },
+            posted_after: {
+              type: "string",
+              description: "Only posts published on/after this date (ISO, e.g. '2024-03-01'). Posts with an unknown post date are excluded."
+            },
+            posted_before: {
+              type: "string",
+              description: "Only posts published before this date (ISO, e.g. '2024-04-01')"
+            },
+            min_likes: {
+              type: "number",
+              description: "Only posts with at least this many likes",
+              minimum: 0
+            },
+            min_comments: {
+              type: "number",
+              description: "Only posts with at least this many comments",
+              minimum: 0
+            },
+            sort_by: {
+              type: "string",
+              enum: ["search_date", "posted_at", "likes", "comments"],
+              description: "read only: order of results, newest/highest first (default: search_date)",
+              default: "search_date"
+            },
+            include_comments: {
+              type: "boolean",
+              description: "read only: include the captured top comments of each post (see search_posts comments_limit)",
+              default: false
+            }
+          },
+          required: ["action"]
+        },
+      },
+      {
+        name: "list_search_runs",
+        description: "List recorded search runs (query, facets, when it ran, posts found/new/duplicate/failed, duration), newest first. Pass run_id to see one run and the IDs of the posts it found.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            run_id: {
+              type: "number",
+              description: "Show this run and its post IDs"
+            },
+            query: {
+              type: "string",
+              description: "Only runs whose query contains this text"
+            },
+            limit: {
+              type: "number",
+              description: "How many runs to return (default: 10, max: 50)",
+              default: 10,
+              minimum: 1,
+              maximum: 50
+            },
+            offset: {
+              type: "number",
+              description: "Skip first N runs for pagination (default: 0)",
+              default: 0,
+              minimum: 0
+            }
+          }
+        },
+      },
+      {
+        name: "manage_saved_searches",
+        description: "Save searches you run often and re-run them by name, manually or on a schedule. Actions: create, list (with last-run status), update, delete, run (now), start_scheduler/stop_scheduler. The scheduler runs due searches headlessly inside this server process, one at a time, and records each run like search_posts does (see list_search_runs). Set LINKEDIN_MCP_SCHEDULER=1 to start it with the server.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            action: {
+              type: "string",
+              enum: ["create", "list", "update", "delete", "run", "start_scheduler", "stop_scheduler"],
+              description: "Operation to perform"
+            },
+            id: {
+              type: "number",
+              description: "Saved search ID - required for update, or use name for delete/run"
+            },
+            name: {
+              type: "string",
+              description: "Saved search name (unique) - required for create; for update, the new name; for delete/run, the search to target when no id is given"
+            },
+            keywords: {
+              type: "string",
+              description: "Search keywords (use either keywords or query)"
+            },
+            query: {
+              type: "object",
+              description: "Structured boolean query (all_of, any_of, none_of, phrases), same as search_posts; stored compiled"
+            },
+            pagination: {
+              type: "number",
+              description: "Pages to scroll (default: 3)",
+              minimum: 1,
+              maximum: 10
+            },
+            target_count: {
+              type: "number",
+              description: "Keep scrolling until this many unique posts are found (0 clears it on update)",
+              minimum: 0,
+              maximum: 200
+            },
+            date_posted: { type: "string", enum: ["past-24h", "past-week", "past-month", "any"] },
+            sort_by: { type: "string", enum: ["relevance", "date"] },
+            content_type: { type: "string", enum: ["any", "photos", "videos", "documents", "jobs", "articles"] },
+            from_member: { type: "array", items: { type: "string" } },
+            author_company: { type: "array", items: { type: "string" } },
+            author_industry: { type: "array", items: { type: "string" } },
+            author_job_title: { type: "string" },
+            extraction_mode: {
+              type: "string",
+              enum: ["full", "fast"],
+              description: "Extraction mode (default: full)"
+            },
+            interval_minutes: {
+              type: "number",
+              description: "Run automatically every N minutes while the scheduler is running (default: 0, manual only)",
+              minimum: 0
+            },
+            enabled: {
+              type: "boolean",
+              description: "Disabled searches are skipped by the scheduler but can still be run manually (default: true)"
+            },
+            headless: {
+              type: "boolean",
+              description: "run only: run the browser in headless mode (default: false; scheduled runs are always headless)",
+              default: false
+            }
+          },
+          required: ["action"]
+        },
+      },
+      {
+        name: "manage_watch_list",
+        description: "Watch recruiters' profiles and target companies' pages for new posts that keyword searches miss. Actions: add (a profile or company page link), list (with last-check status and saved post counts), remove, check (scroll the watched feeds, all or one, and save their new posts tagged with the profile/company; the viewer's Following tab shows them). Checks use the same pacing, page-load budget and block page detection as search_posts, and record a search run per feed.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            action: {
+              type: "string",
+              enum: ["add", "list", "remove", "check"],
+              description: "Action to perform"
+            },
+            url: {
+              type: "string",
+              description: "add: profile (linkedin.com/in/...) or company page (linkedin.com/company/...) link. remove/check: selects the watched entity by link"
+            },
+            name: {
+              type: "string",
+              description: "add: display name (default: the link's slug). remove/check: selects the watched entity by name"
+            },
+            id: {
+              type: "number",
+              description: "remove/check: selects the watched entity by ID (check without id, url or name checks every watched feed)"
+            },
+            pagination: {
+              type: "number",
+              description: "check only: scrolls per feed (default: 2)",
+              default: 2,
+              minimum: 0
+            },
+            target_count: {
+              type: "number",
+              description: "check only: keep scrolling each feed until this many posts are found",
+              minimum: 1
+            },
+            headless: {
+              type: "boolean",
+              description: "check only: run the browser in headless mode (default: false)",
+              default: false
             }
           },
           required: ["action"]
@@ -176,6 +567,14 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
               type: "string",
               description: "Filter by specific post IDs, comma-separated (e.g., '1,5,10') - only for update action"
             },
+            author: {
+              type: "string",
+              description: "Filter by author: profile URL (e.g., 'https://www.linkedin.com/in/jane-doe/') or exact author name, empty string for all authors - only for update action"
+            },
+            run_id: {
+              type: "number",
+              description: "Only show posts found by this search run (see list_search_runs), 0 for all runs - only for update action"
+            },
             reset: {
               type: "boolean",
               description: "If true, reset all filters to default state (clears all filters) - only for update action"
@@ -183,13 +582,53 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
           },
           required: ["action"]
         },
+      },
+      {
+        name: "search_pacing",
+        description: "View or change how searches pace LinkedIn page loads to protect the account: random delay before each post page, max post pages at once, and hourly/daily page-load budgets (rolling windows, shared by every search). Read shows the remaining budget. When the budget is used up, search_posts refuses to start; when it runs out mid-search, the remaining posts are not extracted.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            action: {
+              type: "string",
+              enum: ["read", "update"],
+              description: "Action to perform: 'read' to view the policy and remaining budget, 'update' to change the policy"
+            },
+            max_concurrency: {
+              type: "number",
+              description: "Most post pages open at the same time, across all running searches (default: 3) - only for update action",
+              minimum: 1
+            },
+            min_delay_seconds: {
+              type: "number",
+              description: "Shortest random pause before each post page load (default: 2) - only for update action",
+              minimum: 0
+            },
+            max_delay_seconds: {
+              type: "number",
+              description: "Longest random pause before each post page load (default: 6) - only for update action",
+              minimum: 0
+            },
+            hourly_page_budget: {
+              type: "number",
+              description: "Page loads allowed in any rolling hour (default: 120) - only for update action",
+              minimum: 0
+            },
+            daily_page_budget: {
+              type: "number",
+              description: "Page loads allowed in any rolling 24 hours (default: 400) - only for update action",
+              minimum: 0
+            }
+          },
+          required: ["action"]
+        },
       }
     ],
   };
 });
 
 // Handle tool calls
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
+server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
   const { name, arguments: params } = request.params;
 
   try {
@@ -198,11 +637,35 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         return await handleLinkedInAuth(params as any);
         
       case "search_posts":
-        return await handleLinkedInSearchPosts(params as any);
+        return await handleLinkedInSearchPosts(
+          params as any,
+          createProgressNotifier(request.params._meta?.progressToken, extra.sendNotification),
+          extra.signal
+        );
+        
+      case "scrape_post":
+        return await handleLinkedInScrapePost(
+          params as any,
+          createProgressNotifier(request.params._meta?.progressToken, extra.sendNotification),
+          extra.signal
+        );
         
       case "manage_posts":
         return await handleLinkedInManagePosts(params as any);
         
+      case "list_search_runs":
+        return await handleLinkedInListSearchRuns(params as any);
+        
+      case "manage_saved_searches":
+        return await handleLinkedInSavedSearches(params as any);
+        
+      case "manage_watch_list":
+        return await handleLinkedInWatchList(
+          params as any,
+          createProgressNotifier(request.params._meta?.progressToken, extra.sendNotification),
+          extra.signal
+        );
+        
       case "start_viewer":
         const viteResult = await startViteViewer();
         return {
@@ -224,6 +687,9 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
       case "viewer_filters":
         return await handleLinkedInManageFilters(params as any);
         
+      case "search_pacing":
+        return await handleLinkedInManagePacing(params as any);
+        
       default:
         throw new Error(`Unknown tool: ${name}`);
     }
@@ -244,6 +710,11 @@ await server.connect(transport);
 // MCP servers communicate via JSON-RPC over stdin/stdout
 // Do not write anything to stdout or it will corrupt the protocol
 
+// Saved search scheduler is opt-in (it launches browsers on its own)
+if (process.env.LINKEDIN_MCP_SCHEDULER === '1' || process.env.LINKEDIN_MCP_SCHEDULER === 'true') {
+  startScheduler();
+}
+
 // Graceful shutdown handlers
 // Ensures proper cleanup of resources when the MCP server stops
 const cleanup = async () => {
@@ -253,6 +724,12 @@ const cleanup = async () => {
     
     // Stop any running Vite viewer servers
     stopViteViewer();
+    
+    // Stop scheduling saved searches
+    stopScheduler();
+    
+    // Close the warm browser kept between searches
+    await shutdownBrowserPool();
   } catch (error) {
     // Silently handle cleanup errors to avoid protocol corruption
   }
@@ -264,6 +741,11 @@ const cleanup = async () => {
 process.on('SIGTERM', cleanup);  // Docker/systemd termination
 process.on('SIGINT', cleanup);   // Ctrl+C in terminal
 
+// Client disconnected: no more searches can come, don't keep a warm browser around
+process.stdin.on('end', () => {
+  void shutdownBrowserPool();
+});
+
 // Handle normal process exit
 process.on('exit', () => {
   // Final cleanup - must be synchronous
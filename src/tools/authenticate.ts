@@ -109,6 +109,10 @@ async function handleAuthStatus() {
     statusText += `• Age: ${status.age}\n`;
   }
 
+  if (status.invalidatedAt) {
+    statusText += `• Rejected by LinkedIn: ${status.invalidatedAt.toLocaleString()} (${status.invalidReason ?? 'unknown reason'})\n`;
+  }
+
   if (!status.isValid) {
     statusText += "\n⚠️  Authentication may be expired or invalid. Consider re-authenticating.";
   }
@@ -15,6 +15,8 @@ interface ManageFiltersParams {
   start_date?: string; // ISO date string (YYYY-MM-DD)
   end_date?: string;   // ISO date string (YYYY-MM-DD)
   ids?: string;        // Comma-separated IDs (e.g., "1,5,10")
+  author?: string;     // Author profile URL or name ('' for all authors)
+  run_id?: number;     // Search run ID (0 for all runs)
   reset?: boolean;     // Clear all filters
 }
 
@@ -80,6 +82,14 @@ export async function handleLinkedInManageFilters(params: ManageFiltersParams):
         updates.idFilter = params.ids;
       }
       
+      if (params.author !== undefined) {
+        updates.authorFilter = params.author.trim();
+      }
+      
+      if (params.run_id !== undefined) {
+        updates.runFilter = params.run_id > 0 ? params.run_id : null;
+      }
+      
       // Check if any updates were provided
       if (Object.keys(updates).length === 0) {
         return {
@@ -110,6 +120,12 @@ export async function handleLinkedInManageFilters(params: ManageFiltersParams):
       if (updates.idFilter !== undefined) {
         changedFilters.push(`- ID Filter: ${updates.idFilter || 'None'}`);
       }
+      if (updates.authorFilter !== undefined) {
+        changedFilters.push(`- Author: ${updates.authorFilter || 'All Authors'}`);
+      }
+      if (updates.runFilter !== undefined) {
+        changedFilters.push(`- Search Run: ${updates.runFilter ? `#${updates.runFilter}` : 'All Runs'}`);
+      }
       
       return {
         content: [{
@@ -139,7 +155,9 @@ function formatFilterState(state: FilterState): string {
     `  • Keyword: "${state.keywordFilter || 'All Keywords'}"`,
     `  • Applied Status: ${formatAppliedFilter(state.appliedFilter)}`,
     `  • Date Range: ${state.startDate || 'Any'} to ${state.endDate || 'Any'}`,
-    `  • ID Filter: ${state.idFilter || 'None'}`
+    `  • ID Filter: ${state.idFilter || 'None'}`,
+    `  • Author: ${state.authorFilter || 'All Authors'}`,
+    `  • Search Run: ${state.runFilter ? `#${state.runFilter}` : 'All Runs'}`
   ].join('\n');
 }
 
@@ -0,0 +1,120 @@
+import {
+  getPacingPolicy,
+  updatePacingPolicy,
+  getPageBudgetStatus,
+  type PacingPolicy,
+  type PageBudgetStatus
+} from '../utils/pacing.js';
+
+/**
+ * MCP tool parameters for the pacing policy and page-load budget
+ */
+interface ManagePacingParams {
+  action: 'read' | 'update';
+  max_concurrency?: number;
+  min_delay_seconds?: number;
+  max_delay_seconds?: number;
+  hourly_page_budget?: number;
+  daily_page_budget?: number;
+}
+
+/**
+ * Handle MCP tool call for the pacing policy and remaining page-load budget
+ */
+export async function handleLinkedInManagePacing(params: ManagePacingParams): Promise<{
+  content: Array<{ type: string; text: string }>;
+}> {
+  try {
+    // Handle read action
+    if (params.action === 'read') {
+      return {
+        content: [{
+          type: "text",
+          text: `${formatBudgetStatus(getPageBudgetStatus())}\n\n⚙️ Pacing policy:\n${formatPacingPolicy(getPacingPolicy())}`
+        }]
+      };
+    }
+    
+    // Handle update action
+    if (params.action === 'update') {
+      // Build update object (delays are given in seconds, stored in milliseconds)
+      const updates: Partial<PacingPolicy> = {};
+      
+      if (params.max_concurrency !== undefined) {
+        updates.maxConcurrency = params.max_concurrency;
+      }
+      
+      if (params.min_delay_seconds !== undefined) {
+        updates.minDelayMs = Math.round(params.min_delay_seconds * 1000);
+      }
+      
+      if (params.max_delay_seconds !== undefined) {
+        updates.maxDelayMs = Math.round(params.max_delay_seconds * 1000);
+      }
+      
+      if (params.hourly_page_budget !== undefined) {
+        updates.hourlyPageBudget = params.hourly_page_budget;
+      }
+      
+      if (params.daily_page_budget !== undefined) {
+        updates.dailyPageBudget = params.daily_page_budget;
+      }
+      
+      // Check if any updates were provided
+      if (Object.keys(updates).length === 0) {
+        return {
+          content: [{
+            type: "text",
+            text: `⚠️ No pacing updates provided. Use action: 'read' to view the policy and budget, or provide pacing parameters to update.`
+          }]
+        };
+      }
+      
+      const newPolicy = updatePacingPolicy(updates);
+      
+      return {
+        content: [{
+          type: "text",
+          text: `✅ Pacing policy updated!\n\n⚙️ Pacing policy:\n${formatPacingPolicy(newPolicy)}\n\n${formatBudgetStatus(getPageBudgetStatus())}`
+        }]
+      };
+    }
+    
+    throw new Error(`Invalid action: ${params.action}. Use 'read' or 'update'.`);
+    
+  } catch (error) {
+    return {
+      content: [{
+        type: "text",
+        text: `❌ Failed to manage pacing: ${error instanceof Error ? error.message : 'Unknown error'}`
+      }]
+    };
+  }
+}
+
+/**
+ * Format pacing policy for display
+ */
+function formatPacingPolicy(policy: PacingPolicy): string {
+  return [
+    `  • Max concurrency: ${policy.maxConcurrency} post pages at a time`,
+    `  • Delay before each post page: ${policy.minDelayMs / 1000}-${policy.maxDelayMs / 1000}s (random)`,
+    `  • Hourly budget: ${policy.hourlyPageBudget} page loads`,
+    `  • Daily budget: ${policy.dailyPageBudget} page loads`
+  ].join('\n');
+}
+
+/**
+ * Format remaining page-load budget for display
+ */
+function formatBudgetStatus(status: PageBudgetStatus): string {
+  const lines = [
+    `⛽ Page loads left: ${status.remaining}`,
+    `  • Last hour: ${status.usedLastHour} used, ${status.remainingHour} left`,
+    `  • Last 24 hours: ${status.usedLastDay} used, ${status.remainingDay} left`
+  ];
+  if (status.nextAvailableAt) {
+    lines.push(`  • Budget used up: searches are refused until ${status.nextAvailableAt}`);
+  }
+  return lines.join('\n');
+}
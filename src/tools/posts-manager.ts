@@ -1,29 +1,103 @@
 import { 
   queryPosts, 
   deletePostsBulk, 
-  countPosts 
+  countPosts,
+  getCommentsForPosts
 } from '../db/operations.js';
-import type { DbPost } from '../db/operations.js';
+import type { DbPost, DbComment, PostSortBy } from '../db/operations.js';
 
 export interface PostManagerParams {
   action: 'read' | 'delete' | 'count';
   ids?: number[];
   keyword?: string;
+  run_id?: number;
+  source?: string;
   contains?: string;
+  author?: string;
   limit?: number;
   offset?: number;
   applied?: boolean;
   saved?: boolean;
+  posted_after?: string;
+  posted_before?: string;
+  min_likes?: number;
+  min_comments?: number;
+  sort_by?: PostSortBy;
+  include_comments?: boolean;
 }
 
 /**
- * Format post for display (minimal: ID, keyword, description)
+ * Map the tool's filter params onto the query filters (shared by read, delete and count)
  */
-const formatPost = (post: DbPost): string => {
-  return `--- Post #${post.id} ---
-Keyword: ${post.search_keywords}
-Description: ${post.description}
+const toFilters = (params: PostManagerParams) => ({
+  keyword: params.keyword,
+  runId: params.run_id,
+  source: params.source,
+  contains: params.contains,
+  author: params.author,
+  applied: params.applied,
+  saved: params.saved,
+  postedAfter: params.posted_after,
+  postedBefore: params.posted_before,
+  minLikes: params.min_likes,
+  minComments: params.min_comments
+});
+
+/**
+ * Describe the active filters, e.g. `keyword: "python", min likes: 50`
+ */
+const describeFilters = (params: PostManagerParams): string[] => {
+  const contextParts: string[] = [];
+  if (params.keyword) contextParts.push(`keyword: "${params.keyword}"`);
+  if (params.run_id !== undefined) contextParts.push(`search run: #${params.run_id}`);
+  if (params.source !== undefined) contextParts.push(`source: "${params.source}"`);
+  if (params.contains) contextParts.push(`containing: "${params.contains}"`);
+  if (params.author) contextParts.push(`author: "${params.author}"`);
+  if (params.applied !== undefined) contextParts.push(`applied: ${params.applied ? 'yes' : 'no'}`);
+  if (params.saved !== undefined) contextParts.push(`saved: ${params.saved ? 'yes' : 'no'}`);
+  if (params.posted_after) contextParts.push(`posted after: ${params.posted_after}`);
+  if (params.posted_before) contextParts.push(`posted before: ${params.posted_before}`);
+  if (params.min_likes !== undefined) contextParts.push(`min likes: ${params.min_likes}`);
+  if (params.min_comments !== undefined) contextParts.push(`min comments: ${params.min_comments}`);
+  return contextParts;
+};
 
+/**
+ * Format a post's captured comments (one line each)
+ */
+const formatComments = (comments: DbComment[]): string => {
+  if (comments.length === 0) {
+    return 'Comments: none captured\n';
+  }
+  
+  let text = `Comments (${comments.length}):\n`;
+  comments.forEach(c => {
+    const headline = c.author_headline ? ` (${c.author_headline})` : '';
+    const time = c.relative_time ? ` [${c.relative_time}]` : '';
+    text += `  - ${c.author_name}${headline}${time}: ${c.comment_text.replace(/\s+/g, ' ')}\n`;
+  });
+  return text;
+};
+
+/**
+ * Format post age and engagement on one line (unparsed values are left out)
+ */
+const formatPostStats = (post: DbPost): string => {
+  const parts: string[] = [];
+  if (post.posted_at) parts.push(`Posted: ${post.posted_at.slice(0, 10)}`);
+  if (post.like_count_num !== null) parts.push(`Likes: ${post.like_count_num}`);
+  if (post.comment_count_num !== null) parts.push(`Comments: ${post.comment_count_num}`);
+  return parts.length > 0 ? `${parts.join(' | ')}\n` : '';
+};
+
+/**
+ * Format post for display (minimal: ID, keyword, age/engagement, description, comments when requested)
+ */
+const formatPost = (post: DbPost, comments?: DbComment[]): string => {
+  return `--- Post #${post.id} ---
+${post.source ? `Source: ${post.source}` : `Keyword: ${post.search_keywords}`}
+${formatPostStats(post)}Description: ${post.description}
+${comments ? formatComments(comments) : ''}
 `;
 };
 
@@ -36,31 +110,20 @@ const handleRead = async (params: PostManagerParams): Promise<string> => {
   
   const posts = await queryPosts({
     ids: params.ids,
-    keyword: params.keyword,
-    contains: params.contains,
-    applied: params.applied,
-    saved: params.saved,
+    ...toFilters(params),
+    sortBy: params.sort_by,
     limit: limit,
     offset: offset
   });
   
-  const totalPosts = await countPosts({
-    keyword: params.keyword,
-    contains: params.contains,
-    applied: params.applied,
-    saved: params.saved
-  });
+  const totalPosts = await countPosts(toFilters(params));
   
   if (posts.length === 0) {
     return `No posts found matching your criteria.\n\nTotal posts in database: ${await countPosts()}`;
   }
   
   // Build context description
-  const contextParts: string[] = [];
-  if (params.keyword) contextParts.push(`keyword: "${params.keyword}"`);
-  if (params.contains) contextParts.push(`containing: "${params.contains}"`);
-  if (params.applied !== undefined) contextParts.push(`applied: ${params.applied ? 'yes' : 'no'}`);
-  if (params.saved !== undefined) contextParts.push(`saved: ${params.saved ? 'yes' : 'no'}`);
+  const contextParts = describeFilters(params);
   
   let result = '';
   
@@ -72,8 +135,12 @@ const handleRead = async (params: PostManagerParams): Promise<string> => {
   
   result += `Showing ${posts.length} posts (offset: ${offset}):\n\n`;
   
+  const comments = params.include_comments
+    ? await getCommentsForPosts(posts.map(p => p.id))
+    : undefined;
+  
   posts.forEach(post => {
-    result += formatPost(post);
+    result += formatPost(post, comments ? comments.get(post.id) ?? [] : undefined);
   });
   
   // Pagination hint
@@ -94,10 +161,7 @@ const handleDelete = async (params: PostManagerParams): Promise<string> => {
   // First, get the posts to delete based on filters
   const postsToDelete = await queryPosts({
     ids: params.ids,
-    keyword: params.keyword,
-    contains: params.contains,
-    applied: params.applied,
-    saved: params.saved
+    ...toFilters(params)
   });
   
   if (postsToDelete.length === 0) {
@@ -114,19 +178,10 @@ const handleDelete = async (params: PostManagerParams): Promise<string> => {
  * Handle count action
  */
 const handleCount = async (params: PostManagerParams): Promise<string> => {
-  const total = await countPosts({
-    keyword: params.keyword,
-    contains: params.contains,
-    applied: params.applied,
-    saved: params.saved
-  });
+  const total = await countPosts(toFilters(params));
   
   // Build context description
-  const contextParts: string[] = [];
-  if (params.keyword) contextParts.push(`keyword: "${params.keyword}"`);
-  if (params.contains) contextParts.push(`containing: "${params.contains}"`);
-  if (params.applied !== undefined) contextParts.push(`applied: ${params.applied ? 'yes' : 'no'}`);
-  if (params.saved !== undefined) contextParts.push(`saved: ${params.saved ? 'yes' : 'no'}`);
+  const contextParts = describeFilters(params);
   
   if (contextParts.length > 0) {
     return `Found ${total} posts (${contextParts.join(', ')})`;
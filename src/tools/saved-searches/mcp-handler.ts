@@ -0,0 +1,293 @@
+/**
+ * MCP handler for the manage_saved_searches tool
+ * Create, list, edit, delete and run saved searches, and start/stop the scheduler
+ */
+
+import {
+  insertSavedSearch,
+  updateSavedSearch,
+  deleteSavedSearch,
+  getSavedSearchById,
+  getSavedSearchByName,
+  listSavedSearches
+} from '../../db/operations.js';
+import type { DbSavedSearch, SavedSearchInput } from '../../db/operations.js';
+import { ensureResourceDirectories } from '../../utils/paths.js';
+import { formatTime } from '../../utils/format-time.js';
+import { buildFacetsFromParams, formatFacets } from '../search-posts/mcp-handler.js';
+import { compileStructuredQuery } from '../search-posts/utils/query-builder.js';
+import { runSavedSearch, parseSavedFacets } from './runner.js';
+import { startScheduler, stopScheduler, getSchedulerStatus, type SchedulerStatus } from './scheduler.js';
+import type { ExtractionMode, SearchQueryParams } from '../search-posts/utils/types.js';
+
+export type SavedSearchAction = 'create' | 'list' | 'update' | 'delete' | 'run' | 'start_scheduler' | 'stop_scheduler';
+
+export interface SavedSearchesParams extends SearchQueryParams {
+  action: SavedSearchAction;
+  id?: number;
+  name?: string;
+  extraction_mode?: ExtractionMode;
+  interval_minutes?: number;
+  enabled?: boolean;
+  headless?: boolean;
+}
+
+/**
+ * Find the saved search an action targets: by id, or by name when no id is given
+ */
+const findTarget = async (params: SavedSearchesParams): Promise<DbSavedSearch | null> => {
+  if (params.id !== undefined) {
+    return getSavedSearchById(params.id);
+  }
+  if (params.name?.trim()) {
+    return getSavedSearchByName(params.name.trim());
+  }
+  throw new Error('id or name is required');
+};
+
+/**
+ * Validate the search settings given in params, merged over an existing saved search's
+ * @throws Error describing the first invalid setting
+ */
+const buildSavedSearchInput = (params: SavedSearchesParams, existing?: DbSavedSearch): Partial<SavedSearchInput> => {
+  const input: Partial<SavedSearchInput> = {};
+
+  if (params.query && params.keywords?.trim()) {
+    throw new Error('Provide either keywords or query, not both');
+  }
+  if (params.query) {
+    input.keywords = compileStructuredQuery(params.query);
+  } else if (params.keywords !== undefined) {
+    if (!params.keywords.trim()) throw new Error('keywords cannot be empty');
+    input.keywords = params.keywords.trim();
+  }
+
+  if (params.pagination !== undefined) {
+    if (!Number.isInteger(params.pagination) || params.pagination < 1) {
+      throw new Error(`Invalid pagination: ${params.pagination}. Use a positive integer.`);
+    }
+    input.pagination = params.pagination;
+  }
+
+  if (params.target_count !== undefined) {
+    if (!Number.isInteger(params.target_count) || params.target_count < 0) {
+      throw new Error(`Invalid target_count: ${params.target_count}. Use a positive integer, or 0 to clear it.`);
+    }
+    input.target_count = params.target_count > 0 ? params.target_count : null;
+  }
+
+  if (params.extraction_mode !== undefined) {
+    if (!['full', 'fast'].includes(params.extraction_mode)) {
+      throw new Error(`Invalid extraction_mode: ${params.extraction_mode}. Use 'full' or 'fast'.`);
+    }
+    input.extraction_mode = params.extraction_mode;
+  }
+
+  if (params.interval_minutes !== undefined) {
+    if (!Number.isInteger(params.interval_minutes) || params.interval_minutes < 0) {
+      throw new Error(`Invalid interval_minutes: ${params.interval_minutes}. Use 0 (manual only) or a positive integer.`);
+    }
+    input.interval_minutes = params.interval_minutes;
+  }
+
+  if (params.enabled !== undefined) {
+    input.enabled = params.enabled ? 1 : 0;
+  }
+
+  // Facets given in params override the saved ones one by one
+  const saved = parseSavedFacets(existing?.facets ?? '');
+  const facetParams = [params.date_posted, params.sort_by, params.content_type, params.from_member,
+    params.author_company, params.author_industry, params.author_job_title];
+  if (!existing || facetParams.some(value => value !== undefined)) {
+    input.facets = JSON.stringify(buildFacetsFromParams({
+      date_posted: params.date_posted ?? saved.datePosted,
+      sort_by: params.sort_by ?? saved.sortBy,
+      content_type: params.content_type ?? saved.contentType,
+      from_member: params.from_member ?? saved.fromMember,
+      author_company: params.author_company ?? saved.authorCompany,
+      author_industry: params.author_industry ?? saved.authorIndustry,
+      author_job_title: params.author_job_title ?? saved.authorJobTitle
+    }));
+  }
+
+  return input;
+};
+
+/**
+ * Format a saved search for display
+ */
+const formatSavedSearch = (search: DbSavedSearch): string => {
+  const schedule = search.interval_minutes > 0
+    ? `every ${search.interval_minutes} min${search.enabled ? `, next run ${formatTime(search.next_run_at)}` : ' (disabled)'}`
+    : 'manual only';
+  const lastRun = search.last_run_at
+    ? `${formatTime(search.last_run_at)} - ${search.last_status === 'ok' ? `✓ ${search.last_new_posts} new posts` : `✗ ${search.last_error}`}` +
+      (search.last_run_id ? ` (run #${search.last_run_id})` : '')
+    : 'never';
+
+  return `--- #${search.id} ${search.name} ---
+Query: ${search.keywords}
+Facets: ${formatFacets(parseSavedFacets(search.facets)) || 'none'}
+Pagination: ${search.pagination}${search.target_count ? ` | Target count: ${search.target_count}` : ''} | Mode: ${search.extraction_mode}
+Schedule: ${schedule}
+Last run: ${lastRun}
+`;
+};
+
+/**
+ * Format the scheduler state as one line
+ */
+const formatSchedulerStatus = (status: SchedulerStatus): string => {
+  const state = status.active
+    ? `⏰ Scheduler running since ${formatTime(status.startedAt)} (last check: ${formatTime(status.lastCheckAt)})`
+    : '⏸️ Scheduler stopped (start it with action: start_scheduler)';
+  return state + (status.runningSearch ? `\n🔄 Running now: ${status.runningSearch}` : '');
+};
+
+/**
+ * Create a saved search
+ */
+const handleCreate = async (params: SavedSearchesParams): Promise<string> => {
+  const name = params.name?.trim();
+  if (!name) {
+    return 'name is required to create a saved search.';
+  }
+  if (!params.query && !params.keywords?.trim()) {
+    return 'keywords or query is required to create a saved search.';
+  }
+
+  const input = buildSavedSearchInput(params);
+  const id = await insertSavedSearch({
+    name,
+    keywords: input.keywords!,
+    facets: input.facets!,
+    pagination: input.pagination ?? 3,
+    target_count: input.target_count ?? null,
+    extraction_mode: input.extraction_mode ?? 'full',
+    interval_minutes: input.interval_minutes ?? 0,
+    enabled: input.enabled ?? 1
+  });
+
+  const created = await getSavedSearchById(id);
+  let result = `✓ Saved search created\n\n${formatSavedSearch(created!)}`;
+  if (created!.interval_minutes > 0 && !getSchedulerStatus().active) {
+    result += '\n💡 Scheduled runs only happen while the scheduler is running (action: start_scheduler)';
+  }
+  return result;
+};
+
+/**
+ * Edit a saved search
+ */
+const handleUpdate = async (params: SavedSearchesParams): Promise<string> => {
+  if (params.id === undefined) {
+    return 'id is required to update a saved search (name sets the new name).';
+  }
+
+  const existing = await getSavedSearchById(params.id);
+  if (!existing) {
+    return `Saved search #${params.id} not found.`;
+  }
+
+  const changes = buildSavedSearchInput(params, existing);
+  if (params.name !== undefined) {
+    if (!params.name.trim()) return 'name cannot be empty.';
+    changes.name = params.name.trim();
+  }
+  if (Object.keys(changes).length === 0) {
+    return 'Nothing to update. Provide at least one setting to change.';
+  }
+
+  await updateSavedSearch(existing.id, changes);
+  return `✓ Saved search updated\n\n${formatSavedSearch((await getSavedSearchById(existing.id))!)}`;
+};
+
+/**
+ * Run a saved search now
+ */
+const handleRun = async (params: SavedSearchesParams): Promise<string> => {
+  const search = await findTarget(params);
+  if (!search) {
+    return 'Saved search not found.';
+  }
+
+  const { response, saveResult, runId, error } = await runSavedSearch(search, { headless: params.headless ?? false });
+  const { stats } = response;
+
+  let result = `Saved search "${search.name}": ${search.keywords}\n`;
+  result += error
+    ? `✗ ${error}\n`
+    : `✓ ${response.posts.length} posts scraped, ${saveResult?.newPostsAdded ?? 0} new` +
+      ` (${stats.urnsFound} results, ${stats.skippedKnown} already known, ${response.failures.length} failed)\n`;
+  result += runId ? `🗂️ Search run #${runId} recorded (see list_search_runs)` : '⚠️ The search run could not be recorded';
+  return result;
+};
+
+/**
+ * Main handler for the manage_saved_searches tool
+ */
+export const handleLinkedInSavedSearches = async (params: SavedSearchesParams) => {
+  try {
+    // Ensure resource directories exist before database creation
+    ensureResourceDirectories();
+
+    let result: string;
+
+    switch (params.action) {
+      case 'create':
+        result = await handleCreate(params);
+        break;
+
+      case 'list': {
+        const searches = await listSavedSearches();
+        result = searches.length > 0
+          ? `${searches.length} saved searches\n\n${searches.map(formatSavedSearch).join('\n')}`
+          : 'No saved searches yet. Create one with action: create.';
+        result += `\n${formatSchedulerStatus(getSchedulerStatus())}`;
+        break;
+      }
+
+      case 'update':
+        result = await handleUpdate(params);
+        break;
+
+      case 'delete': {
+        const search = await findTarget(params);
+        result = search && await deleteSavedSearch(search.id)
+          ? `✓ Saved search "${search.name}" deleted (its recorded search runs are kept)`
+          : 'Saved search not found.';
+        break;
+      }
+
+      case 'run':
+        result = await handleRun(params);
+        break;
+
+      case 'start_scheduler':
+        result = formatSchedulerStatus(startScheduler());
+        break;
+
+      case 'stop_scheduler':
+        result = formatSchedulerStatus(stopScheduler());
+        break;
+
+      default:
+        result = `Unknown action: ${params.action}. Use create, list, update, delete, run, start_scheduler or stop_scheduler.`;
+    }
+
+    return {
+      content: [{
+        type: "text" as const,
+        text: result
+      }]
+    };
+
+  } catch (error) {
+    return {
+      content: [{
+        type: "text" as const,
+        text: `Error: ${error instanceof Error ? error.message : 'Unknown error occurred'}`
+      }]
+    };
+  }
+};
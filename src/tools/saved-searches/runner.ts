@@ -0,0 +1,111 @@
+/**
+ * Saved search runner
+ * Runs a saved search, stores its posts, records the search run and the saved search's last-run status
+ */
+
+import { searchLinkedInPosts, createSearchStats } from '../search-posts/core/search.js';
+import { saveSearchResourceToDb, saveSearchRunToDb, type DbSaveResult } from '../../utils/resource-storage.js';
+import { ensureResourceDirectories } from '../../utils/paths.js';
+import { getExistingPostLinks, recordSavedSearchRun } from '../../db/operations.js';
+import type { DbSavedSearch } from '../../db/operations.js';
+import type { ExtractionMode, SearchFacets, SearchResponse } from '../search-posts/utils/types.js';
+
+export interface SavedSearchRunResult {
+  search: DbSavedSearch;
+  response: SearchResponse;
+  saveResult: DbSaveResult | null;
+  runId: number | null; // null if the run could not be recorded
+  error?: string;
+}
+
+// Saved search currently running (one at a time, scheduled or manual)
+let runningSearch: DbSavedSearch | null = null;
+
+/**
+ * Name of the saved search currently running, if any
+ */
+export const getRunningSavedSearch = (): string | null => runningSearch?.name ?? null;
+
+/**
+ * Parse the stored facets JSON (empty when unset or unreadable)
+ */
+export const parseSavedFacets = (facets: string): SearchFacets => {
+  try {
+    return facets ? JSON.parse(facets) as SearchFacets : {};
+  } catch (_) {
+    return {};
+  }
+};
+
+/**
+ * Run a saved search and record the outcome
+ * Search failures are recorded (as a failed search run and the saved search's last error), not thrown
+ * @throws Error if another saved search is already running
+ */
+export const runSavedSearch = async (
+  search: DbSavedSearch,
+  options: { headless?: boolean } = {}
+): Promise<SavedSearchRunResult> => {
+  if (runningSearch) {
+    throw new Error(`Saved search "${runningSearch.name}" is already running, try again when it finishes`);
+  }
+
+  runningSearch = search;
+  try {
+    // Ensure resource directories exist before database creation
+    ensureResourceDirectories();
+
+    const facets = parseSavedFacets(search.facets);
+    const extractionMode = search.extraction_mode as ExtractionMode;
+    const startedAt = new Date();
+
+    let response: SearchResponse;
+    let error: string | undefined;
+    try {
+      response = await searchLinkedInPosts(search.keywords, search.pagination, {
+        headless: options.headless ?? true,
+        facets,
+        extractionMode,
+        targetCount: search.target_count ?? undefined,
+        findKnownLinks: getExistingPostLinks
+      });
+    } catch (searchError) {
+      error = searchError instanceof Error ? searchError.message : String(searchError);
+      response = {
+        posts: [],
+        failures: [],
+        stats: { ...createSearchStats(extractionMode, startedAt), durationMs: Date.now() - startedAt.getTime() },
+        foundLinks: []
+      };
+    }
+
+    let saveResult: DbSaveResult | null = null;
+    if (response.posts.length > 0) {
+      try {
+        saveResult = await saveSearchResourceToDb(response.posts, search.keywords, facets, false);
+      } catch (saveError) {
+        error = `Failed to save to database: ${saveError instanceof Error ? saveError.message : String(saveError)}`;
+      }
+    }
+
+    // Recorded after saving, so the run links to the posts it just added
+    let runId: number | null = null;
+    try {
+      runId = await saveSearchRunToDb(search.keywords, facets, response, saveResult, error);
+    } catch (_) {
+      // The last-run status below still tells the outcome
+    }
+
+    await recordSavedSearchRun(search.id, {
+      runAt: startedAt.toISOString(),
+      runId,
+      status: error ? 'error' : 'ok',
+      error: error ?? '',
+      newPosts: saveResult?.newPostsAdded ?? 0
+    });
+
+    return { search, response, saveResult, runId, error };
+  } finally {
+    runningSearch = null;
+  }
+};
@@ -0,0 +1,89 @@
+/**
+ * In-process saved search scheduler
+ * Checks for due saved searches on a timer and runs them headlessly, one at a time
+ */
+
+import { getDueSavedSearches } from '../../db/operations.js';
+import { runSavedSearch, getRunningSavedSearch } from './runner.js';
+
+// How often to look for due searches
+const TICK_INTERVAL_MS = 60 * 1000;
+
+export interface SchedulerStatus {
+  active: boolean;
+  startedAt: string | null;
+  lastCheckAt: string | null;
+  runningSearch: string | null; // saved search running right now (scheduled or manual)
+}
+
+// Module-level state tracking for singleton pattern
+let timer: NodeJS.Timeout | null = null;
+let startedAt: string | null = null;
+let lastCheckAt: string | null = null;
+let ticking = false;
+
+/**
+ * Run every saved search that is due
+ * Skipped while a previous tick or a manual run is still going
+ */
+const tick = async (): Promise<void> => {
+  if (ticking || getRunningSavedSearch()) {
+    return;
+  }
+
+  ticking = true;
+  try {
+    lastCheckAt = new Date().toISOString();
+    const due = await getDueSavedSearches(lastCheckAt);
+
+    for (const search of due) {
+      // Stopped mid-tick: leave the rest for the next start
+      if (!timer) break;
+      // Outcomes, failures included, are recorded on the saved search
+      await runSavedSearch(search, { headless: true }).catch(() => {});
+    }
+  } catch (_) {
+    // Never let a failed check stop the scheduler
+  } finally {
+    ticking = false;
+  }
+};
+
+/**
+ * Start the scheduler (no-op if it is already running)
+ * The timer doesn't keep the process alive on its own
+ */
+export const startScheduler = (): SchedulerStatus => {
+  if (!timer) {
+    timer = setInterval(() => { void tick(); }, TICK_INTERVAL_MS);
+    timer.unref();
+    startedAt = new Date().toISOString();
+    // Catch up on searches that fell due while nothing was running
+    void tick();
+  }
+
+  return getSchedulerStatus();
+};
+
+/**
+ * Stop the scheduler; a search already running finishes on its own
+ */
+export const stopScheduler = (): SchedulerStatus => {
+  if (timer) {
+    clearInterval(timer);
+    timer = null;
+    startedAt = null;
+  }
+
+  return getSchedulerStatus();
+};
+
+/**
+ * Current scheduler state
+ */
+export const getSchedulerStatus = (): SchedulerStatus => ({
+  active: timer !== null,
+  startedAt,
+  lastCheckAt,
+  runningSearch: getRunningSavedSearch()
+});
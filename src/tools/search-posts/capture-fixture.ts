@@ -0,0 +1,86 @@
+/**
+ * Capture a new extractor fixture from a live LinkedIn page
+ * Saves the page HTML (scripts stripped) and the current extractor output as the expected JSON.
+ * Review and trim the expected JSON before committing - it records today's behaviour, not the truth.
+ *
+ * Run directly with: npx tsx src/tools/search-posts/capture-fixture.ts <post-or-search-url> <fixture-name>
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { chromium } from 'playwright';
+import { loadAuthData, isAuthDataValid } from '../../auth/storage.js';
+import { loadBrowserProfile, getLaunchOptions, getContextOptions } from '../../browser/browser-profile.js';
+import { extractPostContent } from './extractors/post-content.js';
+import { extractSearchCards } from './extractors/search-card.js';
+
+const FIXTURES_DIR = path.join(path.dirname(fileURLToPath(import.meta.url)), 'fixtures');
+
+/**
+ * Strip scripts and inline event handlers so the snapshot is static
+ */
+const sanitizeHtml = (html: string): string => {
+  return html
+    .replace(/<script\b[\s\S]*?<\/script>/gi, '')
+    .replace(/<link\b[^>]*rel="(?:preload|modulepreload|prefetch)"[^>]*>/gi, '')
+    .replace(/\son[a-z]+="[^"]*"/gi, '');
+};
+
+const main = async (): Promise<void> => {
+  const [url, name] = process.argv.slice(2);
+  if (!url || !name) {
+    throw new Error('Usage: capture-fixture.ts <post-or-search-url> <fixture-name>');
+  }
+
+  const postUrnMatch = url.match(/\/feed\/update\/(urn:li:[^/?]+)/);
+  const isSearch = /\/search\/results\//.test(url);
+  if (!postUrnMatch && !isSearch) {
+    throw new Error('URL must be a post (/feed/update/urn:li:...) or a search results page (/search/results/...)');
+  }
+
+  const authData = await loadAuthData();
+  if (!authData || !await isAuthDataValid(authData)) {
+    throw new Error('No valid LinkedIn authentication found. Please authenticate first.');
+  }
+
+  const profile = loadBrowserProfile();
+  const browser = await chromium.launch(getLaunchOptions(profile, false));
+  const context = await browser.newContext({ ...getContextOptions(profile), storageState: authData });
+  const page = await context.newPage();
+
+  try {
+    await page.goto(url, { waitUntil: 'domcontentloaded' });
+
+    const kind = postUrnMatch ? 'posts' : 'search';
+    const dir = path.join(FIXTURES_DIR, kind);
+    fs.mkdirSync(dir, { recursive: true });
+
+    let expected: unknown;
+    if (postUrnMatch) {
+      const urn = decodeURIComponent(postUrnMatch[1]);
+      const result = await extractPostContent(page, url, urn);
+      expected = { urn, expected: result };
+    } else {
+      await page.waitForSelector('[data-view-tracking-scope]', { timeout: 30000 });
+      const cards = await extractSearchCards(page);
+      expected = { expected: Array.from(cards.values()) };
+    }
+
+    const html = sanitizeHtml(await page.content());
+    fs.writeFileSync(path.join(dir, `${name}.html`), html, 'utf-8');
+    fs.writeFileSync(path.join(dir, `${name}.expected.json`), JSON.stringify(expected, null, 2) + '\n', 'utf-8');
+
+    console.log(`✅ Captured fixtures/${kind}/${name}.html (${Math.round(html.length / 1024)} KB)`);
+    console.log(`📝 Review fixtures/${kind}/${name}.expected.json before committing`);
+  } finally {
+    await browser.close();
+  }
+};
+
+main()
+  .then(() => process.exit(0))
+  .catch(error => {
+    console.error('\n❌ Capture failed:', error);
+    process.exit(1);
+  });
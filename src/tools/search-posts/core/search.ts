@@ -2,99 +2,350 @@
  * Core LinkedIn search functionality (pure, no database operations)
  */
 
-import { chromium, Browser, BrowserContext, Page } from 'playwright';
-import { loadAuthData, isAuthDataValid } from '../../../auth/storage.js';
+import { errors, BrowserContext, Page, Response } from 'playwright';
+import { loadAuthData, isAuthDataValid, markAuthInvalid } from '../../../auth/storage.js';
+import { withBrowserContext, isBrowserWarm } from '../../../browser/browser-pool.js';
 import { buildSearchUrl, buildPostUrl } from '../utils/url-builder.js';
 import { extractPostContent } from '../extractors/post-content.js';
-import type { PostResult, SearchOptions } from '../utils/types.js';
+import { extractSearchCards } from '../extractors/search-card.js';
+import { readStrategyValue } from '../extractors/selector-match.js';
+import { detectBlockedPage } from '../extractors/blocked-page.js';
+import { capturePostScreenshot } from '../extractors/screenshot.js';
+import { PostExtractionError, PageBudgetError, LinkedInBlockedError, RETRYABLE_FAILURE_REASONS } from '../utils/errors.js';
+import { getPacingPolicy, getPageBudgetStatus, reservePageLoad, acquirePageSlot, releasePageSlot, getPacingDelayMs, PacingPolicy } from '../../../utils/pacing.js';
+import { getStrategies, tallySelectorMatches } from '../utils/selector-registry.js';
+import type {
+  PostResult,
+  PostFailure,
+  BatchSearchQuery,
+  BatchQueryResult,
+  ActivityFeedQuery,
+  ActivityFeedResult,
+  BlockedPageKind,
+  ExtractionMode,
+  SearchOptions,
+  SearchProgress,
+  SearchResponse,
+  SearchStats,
+  ScrollLimits,
+  ScrollResult
+} from '../utils/types.js';
 
 /**
- * Extract post URNs from search results page
+ * Resolve once the signal is aborted (never, without a signal)
  */
-const extractPostUrns = async (page: Page): Promise<string[]> => {
-  const allUrns: string[] = await page.$$eval('div[data-view-tracking-scope]', (divs) => {
+const whenAborted = (signal?: AbortSignal): Promise<void> => new Promise(resolve => {
+  if (!signal) return;
+  if (signal.aborted) return resolve();
+  signal.addEventListener('abort', () => resolve(), { once: true });
+});
+
+/**
+ * Wait for `promise`, or stop waiting as soon as the signal is aborted (resolves undefined)
+ * A promise given up on is silenced; it settles when the browser closes
+ */
+const unlessAborted = async <T>(promise: Promise<T>, signal?: AbortSignal): Promise<T | undefined> => {
+  if (!signal) return promise;
+  promise.catch(() => {});
+  return Promise.race([promise, whenAborted(signal).then(() => undefined)]);
+};
+
+/**
+ * Error for a block page; login walls, checkpoints and captchas also mark the stored session invalid
+ */
+const toBlockedError = async (kind: BlockedPageKind, url: string): Promise<LinkedInBlockedError> => {
+  const error = new LinkedInBlockedError(kind, url);
+  if (error.invalidatesAuth) {
+    await markAuthInvalid(`${kind} page at ${url}`);
+  }
+  return error;
+};
+
+/**
+ * Stop the search when LinkedIn showed a block page instead of the requested one
+ * @throws LinkedInBlockedError
+ */
+const assertNotBlocked = async (page: Page, response?: Response | null): Promise<void> => {
+  const kind = await detectBlockedPage(page, response);
+  if (kind) {
+    throw await toBlockedError(kind, page.url());
+  }
+};
+
+/**
+ * URNs found on the page and the strategy that found them
+ */
+interface UrnMatch {
+  urns: string[];
+  strategy: string | null;
+}
+
+/**
+ * Extract post URNs from a search results page (or an activity feed, with its `urnField`)
+ * Uses the first strategy of the field that yields any URNs
+ */
+const extractPostUrns = async (page: Page, urnField: string): Promise<UrnMatch> => {
+  for (const strategy of getStrategies(urnField)) {
+    const rawValues: (string | null)[] = await page.$$eval(
+      strategy.selector,
+      (elements, attribute) => elements.map(el => attribute ? el.getAttribute(attribute) : el.textContent),
+      strategy.attribute ?? null
+    ).catch(() => []);
+    
     const urns = new Set<string>();
-    for (const d of divs) {
-      const tracking = d.getAttribute('data-view-tracking-scope');
-      if (!tracking) continue;
-      try {
-        const parsed = JSON.parse(tracking);
-        const urn = (parsed as any)?.[0]?.breadcrumb?.updateUrn as string | undefined;
-        if (urn) urns.add(urn);
-      } catch (_) {
-        // Ignore JSON parse errors
-      }
+    for (const raw of rawValues) {
+      const urn = readStrategyValue(strategy, raw);
+      if (urn) urns.add(urn);
     }
-    return Array.from(urns);
-  });
+    
+    if (urns.size > 0) {
+      return { urns: Array.from(urns), strategy: strategy.name };
+    }
+  }
   
-  return allUrns;
+  return { urns: [], strategy: null };
 };
 
 /**
- * Scroll and load more search results
+ * Scroll the search results (or an activity feed) until a stop condition is met, collecting URNs as it goes
+ * 
+ * Without a target count it scrolls `pagination` times; with one it keeps going
+ * until the target is reached or `maxScrolls` is hit. Either way it stops early
+ * once `stallScrolls` consecutive scrolls surface no new URNs, or the signal is aborted.
  */
-const loadMoreResults = async (page: Page, pagination: number): Promise<void> => {
-  for (let i = 0; i < pagination; i++) {
+const loadMoreResults = async (
+  page: Page,
+  limits: ScrollLimits,
+  urnField: string,
+  onProgress?: (event: SearchProgress) => void,
+  signal?: AbortSignal
+): Promise<ScrollResult> => {
+  const { pagination, targetCount, maxScrolls, stallScrolls } = limits;
+  const scrollCap = targetCount ? maxScrolls : pagination;
+  
+  const initial = await extractPostUrns(page, urnField);
+  const seen = new Set<string>(initial.urns);
+  let urnStrategy = initial.strategy;
+  let scrolls = 0;
+  let stalled = 0;
+  
+  while (true) {
+    if (signal?.aborted) {
+      return { urns: Array.from(seen), scrolls, stopReason: 'cancelled', urnStrategy };
+    }
+    if (targetCount && seen.size >= targetCount) {
+      return { urns: Array.from(seen), scrolls, stopReason: 'target-reached', urnStrategy };
+    }
+    if (scrolls >= scrollCap) {
+      return { urns: Array.from(seen), scrolls, stopReason: targetCount ? 'max-scrolls' : 'pagination-complete', urnStrategy };
+    }
+    if (stalled >= stallScrolls) {
+      return { urns: Array.from(seen), scrolls, stopReason: 'no-new-results', urnStrategy };
+    }
+    
     await page.keyboard.press('End');
     await page.waitForTimeout(1200);
+    
+    // LinkedIn sometimes stops infinite scroll and shows a "Show more results" button instead
+    for (const strategy of getStrategies('search.loadMoreButton')) {
+      const loadMoreButton = page.locator(strategy.selector).first();
+      if (await loadMoreButton.isVisible().catch(() => false)) {
+        await loadMoreButton.click().catch(() => {});
+        await page.waitForTimeout(1200);
+        break;
+      }
+    }
+    
+    scrolls++;
+    
+    const before = seen.size;
+    const found = await extractPostUrns(page, urnField);
+    for (const urn of found.urns) {
+      seen.add(urn);
+    }
+    urnStrategy = found.strategy ?? urnStrategy;
+    stalled = seen.size > before ? 0 : stalled + 1;
+    
+    onProgress?.({
+      phase: 'scrolling',
+      message: `Scrolled results page ${scrolls}/${scrollCap} (${seen.size} posts found)`,
+      current: scrolls,
+      total: scrollCap
+    });
   }
 };
 
+/**
+ * Per-post extraction limits
+ */
+interface PostProcessingLimits {
+  timeoutMs: number;
+  maxRetries: number;
+  retryBackoffMs: number;
+  commentsLimit: number;
+  screenshots: boolean;
+  pacing: PacingPolicy;
+}
+
+/**
+ * Outcome of processing a single post
+ */
+type PostOutcome =
+  | { ok: true; post: PostResult }
+  | { ok: false; failure: PostFailure };
+
+/**
+ * Turn any extraction error into a typed failure reason
+ */
+const toPostExtractionError = (error: unknown): PostExtractionError => {
+  if (error instanceof PostExtractionError) {
+    return error;
+  }
+  if (error instanceof errors.TimeoutError) {
+    return new PostExtractionError('timeout', error.message);
+  }
+  return new PostExtractionError('unknown', error instanceof Error ? error.message : String(error));
+};
+
 /**
  * Process a single post (extract content)
+ * Waits for a free post page slot and a random pacing delay before each attempt, and retries retryable failures with exponential backoff
+ * Each attempt takes a page load from the budget first; when none is left, retries stop and
+ * a post not yet attempted has no outcome
+ * Returns null when the signal is aborted or the budget is used up first (the open post page is closed right away)
+ * @throws LinkedInBlockedError when LinkedIn shows a block page or login wall instead of the post
  */
 const processPost = async (
   context: BrowserContext,
   urn: string,
-  index: number,
-  total: number
-): Promise<PostResult> => {
+  limits: PostProcessingLimits,
+  signal?: AbortSignal
+): Promise<PostOutcome | null> => {
   const url = buildPostUrl(urn);
-  let postPage: Page | null = null;
+  let lastError: PostExtractionError | null = null;
+  let attempts = 0;
   
-  try {
-    postPage = await context.newPage();
-    await postPage.goto(url, { waitUntil: 'domcontentloaded', timeout: 0 });
-    
-    const result = await extractPostContent(postPage, url, urn);
+  while (attempts <= limits.maxRetries) {
+    if (attempts > 0) {
+      await unlessAborted(new Promise(resolve => setTimeout(resolve, limits.retryBackoffMs * 2 ** (attempts - 1))), signal);
+    }
+    // Held from the pacing delay until the page closes, shared with every other search running
+    if (!await acquirePageSlot(signal)) {
+      return null;
+    }
     
-    return result;
-  } catch (error) {
-    return {
-      link: url,
-      description: '[Post processing failed - page may not have loaded]'
-    };
-  } finally {
-    if (postPage) {
-      try { await postPage.close(); } catch (_) {}
+    let postPage: Page | null = null;
+    // Closing the page makes the pending navigation or extraction reject at once
+    const closeOnAbort = () => { postPage?.close().catch(() => {}); };
+    signal?.addEventListener('abort', closeOnAbort, { once: true });
+    try {
+      await unlessAborted(new Promise(resolve => setTimeout(resolve, getPacingDelayMs(limits.pacing))), signal);
+      if (signal?.aborted) {
+        return null;
+      }
+      if (!reservePageLoad()) {
+        if (attempts === 0) {
+          return null;
+        }
+        break;
+      }
+      attempts++;
+      
+      postPage = await context.newPage();
+      if (signal?.aborted) {
+        return null;
+      }
+      const response = await postPage.goto(url, { waitUntil: 'domcontentloaded', timeout: limits.timeoutMs });
+      await assertNotBlocked(postPage, response);
+      
+      const post = await extractPostContent(postPage, url, urn, limits.timeoutMs, limits.commentsLimit);
+      if (limits.screenshots) {
+        post.screenshot = await capturePostScreenshot(postPage, urn, post.selectorMatches) ?? undefined;
+      }
+      return { ok: true, post };
+    } catch (error) {
+      // Cancelled under the extraction: not a failure of the post
+      if (signal?.aborted) {
+        return null;
+      }
+      if (error instanceof LinkedInBlockedError) {
+        throw error;
+      }
+      lastError = toPostExtractionError(error);
+      // A login wall only ends the search when the URL or title confirms it; sign-up text
+      // alone ("Join LinkedIn") also shows on logged-in pages, and fails just this post
+      if (lastError.reason === 'auth-wall' && postPage) {
+        await assertNotBlocked(postPage);
+      }
+      if (!RETRYABLE_FAILURE_REASONS.includes(lastError.reason)) {
+        break;
+      }
+    } finally {
+      signal?.removeEventListener('abort', closeOnAbort);
+      if (postPage) {
+        try { await postPage.close(); } catch (_) {}
+      }
+      releasePageSlot();
     }
   }
+  
+  return {
+    ok: false,
+    failure: {
+      link: url,
+      reason: lastError?.reason ?? 'unknown',
+      message: lastError?.message ?? 'Unknown error',
+      attempts
+    }
+  };
 };
 
 /**
  * Process multiple posts concurrently
+ * Reports an `extracting` progress event as each post finishes
+ * Once the signal is aborted or the page-load budget runs out no new post is started;
+ * posts left unprocessed have no outcome (null)
+ * @throws LinkedInBlockedError once the posts in flight settle, when any of them hit a block page
  */
 const processPostsConcurrently = async (
   context: BrowserContext,
   urns: string[],
-  concurrency: number
-): Promise<PostResult[]> => {
+  concurrency: number,
+  limits: PostProcessingLimits,
+  onProgress?: (event: SearchProgress) => void,
+  signal?: AbortSignal
+): Promise<(PostOutcome | null)[]> => {
   const tasks = urns.map((urn, index) => ({ urn, index }));
-  const results: PostResult[] = new Array(tasks.length);
+  const results: (PostOutcome | null)[] = new Array(tasks.length).fill(null);
   const queue = [...tasks];
+  let done = 0;
+  let blocked: unknown = null;
   
   const worker = async (): Promise<void> => {
-    while (queue.length > 0) {
+    while (queue.length > 0 && !signal?.aborted && !blocked) {
       const item = queue.shift();
       if (!item) break;
       
-      results[item.index] = await processPost(
-        context,
-        item.urn,
-        item.index,
-        tasks.length
-      );
+      let outcome: PostOutcome | null;
+      try {
+        outcome = await processPost(context, item.urn, limits, signal);
+      } catch (error) {
+        // Block page: stop every worker, the rest of the posts would hit the same page
+        blocked ??= error;
+        break;
+      }
+      // Cancelled, or the budget (shared with other searches running at the same time) ran out
+      if (!outcome) break;
+      results[item.index] = outcome;
+      done++;
+      onProgress?.({
+        phase: 'extracting',
+        message: outcome.ok
+          ? `Extracted post ${done}/${urns.length}`
+          : `Post ${done}/${urns.length} failed (${outcome.failure.reason})`,
+        current: done,
+        total: urns.length
+      });
     }
   };
   
@@ -103,89 +354,496 @@ const processPostsConcurrently = async (
     Array.from({ length: concurrency }, () => worker())
   );
   
+  if (blocked) {
+    throw blocked;
+  }
   return results;
 };
 
+/**
+ * Open and extract post pages, only as many as the page-load budget has left
+ * Counts the pages opened and the posts left out for the budget in `stats`
+ * @throws LinkedInBlockedError when any post hit a block page
+ */
+const visitPostPages = async (
+  context: BrowserContext,
+  urns: string[],
+  concurrency: number,
+  limits: PostProcessingLimits,
+  stats: SearchStats,
+  onProgress?: (event: SearchProgress) => void,
+  signal?: AbortSignal
+): Promise<{ visitedPosts: Map<string, PostResult>; failures: PostFailure[] }> => {
+  const urnsToVisit = urns.slice(0, getPageBudgetStatus().remaining);
+  stats.skippedBudget = urns.length - urnsToVisit.length;
+  stats.pagesOpened = urnsToVisit.length;
+  
+  const visitedPosts = new Map<string, PostResult>();
+  const failures: PostFailure[] = [];
+  if (urnsToVisit.length === 0) {
+    return { visitedPosts, failures };
+  }
+  
+  const outcomes = await processPostsConcurrently(
+    context,
+    urnsToVisit,
+    Math.min(concurrency, limits.pacing.maxConcurrency, urnsToVisit.length),
+    limits,
+    onProgress,
+    signal
+  );
+  urnsToVisit.forEach((urn, index) => {
+    const outcome = outcomes[index];
+    if (outcome?.ok) {
+      visitedPosts.set(urn, outcome.post);
+      tallySelectorMatches(stats.selectorUsage, outcome.post.selectorMatches);
+    } else if (outcome) {
+      failures.push(outcome.failure);
+    } else if (!signal?.aborted) {
+      // Budget ran out while extracting
+      stats.skippedBudget++;
+      stats.pagesOpened--;
+    }
+  });
+  
+  return { visitedPosts, failures };
+};
+
+/**
+ * Fresh statistics for a search
+ */
+export const createSearchStats = (extractionMode: ExtractionMode, startedAt: Date = new Date()): SearchStats => ({
+  extractionMode,
+  urnsFound: 0,
+  extractedFromCards: 0,
+  fallbackCount: 0,
+  skippedKnown: 0,
+  skippedDuplicate: 0,
+  pagesOpened: 0,
+  skippedBudget: 0,
+  scrolls: 0,
+  stopReason: 'pagination-complete',
+  selectorUsage: {},
+  startedAt: startedAt.toISOString(),
+  durationMs: 0,
+  cancelled: false
+});
+
+/**
+ * A scrollable list of posts: search results or a profile/company activity feed
+ */
+interface FeedSource {
+  url: string;
+  label: string;          // For progress messages, e.g. 'search results for "react"'
+  urnField: string;       // Registry field listing the post URNs on the page
+}
+
+// How long to wait for the first post to show up. An empty list, or a block page LinkedIn
+// redirects to after the page loaded, never shows one; the scan then goes on to the block check
+const RESULTS_TIMEOUT_MS = 15000;
+
 /**
  * Perform LinkedIn post search
- * This is the core function that handles the entire search process
  * NO database operations - returns pure results
+ * 
+ * @param seenUrns - URNs already handled by earlier queries of the same batch; they are
+ *   skipped here, and this search's URNs are added to it
  */
-const performSearch = async (
+const performSearch = (
   context: BrowserContext,
   keywords: string,
   pagination: number,
-  options: SearchOptions
-): Promise<PostResult[]> => {
+  options: SearchOptions,
+  seenUrns: Set<string> = new Set()
+): Promise<SearchResponse> => performFeedScan(context, {
+  url: buildSearchUrl(keywords, options.facets),
+  label: `search results for "${keywords}"`,
+  urnField: 'search.updateUrn'
+}, pagination, options, seenUrns);
+
+/**
+ * Scroll a list of posts, then extract the new ones
+ * This is the core function that handles the entire search process
+ * NO database operations - returns pure results
+ * 
+ * @param seenUrns - URNs already handled earlier in the same browser session; they are
+ *   skipped here, and this scan's URNs are added to it
+ */
+const performFeedScan = async (
+  context: BrowserContext,
+  source: FeedSource,
+  pagination: number,
+  options: SearchOptions,
+  seenUrns: Set<string>
+): Promise<SearchResponse> => {
+  const pacing = getPacingPolicy();
+  // Counted for the navigation to the results or the feed below
+  if (!reservePageLoad()) {
+    throw new PageBudgetError(getPageBudgetStatus());
+  }
+  
   const page = await context.newPage();
-  const { concurrency = 8 } = options;
+  const {
+    concurrency = pacing.maxConcurrency,
+    extractionMode = 'full',
+    targetCount,
+    maxScrolls = 50,
+    stallScrolls = 3,
+    findKnownLinks,
+    postTimeoutMs = 30000,
+    maxRetries = 2,
+    retryBackoffMs = 1000,
+    commentsLimit = 0,
+    screenshots = false,
+    onProgress,
+    signal
+  } = options;
+  const startedAt = new Date();
+  const stats = createSearchStats(extractionMode, startedAt);
   
   try {
-    // Navigate to search results with filters applied
-    const searchUrl = buildSearchUrl(keywords);
-    await page.goto(searchUrl, { waitUntil: 'domcontentloaded' });
+    onProgress?.({ phase: 'loading', message: `Opening ${source.label}` });
     
-    // Wait for search results to load
-    await page.waitForSelector('[data-view-tracking-scope]', { timeout: 0 }).catch(() => {});
+    // Navigate to the search results (filters applied) or the feed
+    const response = await unlessAborted(page.goto(source.url, { waitUntil: 'domcontentloaded' }), signal);
+    if (!signal?.aborted) {
+      await assertNotBlocked(page, response);
+    }
     
-    // Scroll to load more results
-    await loadMoreResults(page, pagination);
+    // Wait for the posts to load
+    const urnSelectors = getStrategies(source.urnField).map(s => s.selector).join(', ');
+    await unlessAborted(page.waitForSelector(urnSelectors, { timeout: RESULTS_TIMEOUT_MS }).catch(() => {}), signal);
     
-    // Extract post URNs
-    const urns = await extractPostUrns(page);
-    const uniqueUrns = Array.from(new Set(urns));
+    if (signal?.aborted) {
+      stats.stopReason = 'cancelled';
+      return { posts: [], failures: [], stats, foundLinks: [] };
+    }
     
-    if (uniqueUrns.length === 0) {
-      return [];
+    // Scroll to load more results, collecting post URNs along the way
+    const scrollResult = await loadMoreResults(page, {
+      pagination,
+      targetCount,
+      maxScrolls,
+      stallScrolls
+    }, source.urnField, onProgress, signal);
+    stats.scrolls = scrollResult.scrolls;
+    stats.stopReason = scrollResult.stopReason;
+    // No results at all: make sure LinkedIn didn't redirect to a block page meanwhile
+    if (scrollResult.urns.length === 0 && !signal?.aborted) {
+      await assertNotBlocked(page);
     }
+    tallySelectorMatches(stats.selectorUsage, { [source.urnField]: scrollResult.urnStrategy });
+    
+    const uniqueUrns = targetCount
+      ? scrollResult.urns.slice(0, targetCount)
+      : scrollResult.urns;
+    stats.urnsFound = uniqueUrns.length;
+    const foundLinks = uniqueUrns.map(buildPostUrl);
     
-    // Process posts concurrently
-    const actualConcurrency = Math.min(concurrency, uniqueUrns.length);
-    const results = await processPostsConcurrently(
+    // Skip posts an earlier query of the batch already found
+    const unseenUrns = uniqueUrns.filter(urn => !seenUrns.has(urn));
+    stats.skippedDuplicate = uniqueUrns.length - unseenUrns.length;
+    unseenUrns.forEach(urn => seenUrns.add(urn));
+    
+    // Skip posts the caller already has (e.g. already in the database)
+    let newUrns = unseenUrns;
+    if (findKnownLinks && unseenUrns.length > 0) {
+      const knownLinks = await findKnownLinks(unseenUrns.map(buildPostUrl));
+      newUrns = unseenUrns.filter(urn => !knownLinks.has(buildPostUrl(urn)));
+      stats.skippedKnown = unseenUrns.length - newUrns.length;
+    }
+    
+    onProgress?.({
+      phase: 'urns-found',
+      message: `Found ${uniqueUrns.length} posts, ${newUrns.length} new to extract`,
+      current: newUrns.length,
+      total: uniqueUrns.length
+    });
+    
+    // Cancelled while scrolling: nothing extracted yet
+    if (newUrns.length === 0 || signal?.aborted) {
+      return { posts: [], failures: [], stats, foundLinks };
+    }
+    
+    // Fast mode: take complete cards as-is, only open post pages for the rest
+    // (cards don't carry comments or screenshots, so capturing them opens every post page)
+    const cardPosts = new Map<string, PostResult>();
+    if (extractionMode === 'fast' && commentsLimit === 0 && !screenshots) {
+      const cards = await extractSearchCards(page);
+      for (const urn of newUrns) {
+        const card = cards.get(urn);
+        if (card?.complete) {
+          cardPosts.set(urn, card.post);
+          tallySelectorMatches(stats.selectorUsage, card.post.selectorMatches);
+        }
+      }
+      stats.extractedFromCards = cardPosts.size;
+    }
+    
+    const pagesNeeded = newUrns.filter(urn => !cardPosts.has(urn));
+    if (extractionMode === 'fast') {
+      stats.fallbackCount = pagesNeeded.length;
+    }
+    
+    // Process remaining posts concurrently
+    const { visitedPosts, failures } = await visitPostPages(
       context,
-      uniqueUrns,
-      actualConcurrency
+      pagesNeeded,
+      concurrency,
+      { timeoutMs: postTimeoutMs, maxRetries, retryBackoffMs, commentsLimit, screenshots, pacing },
+      stats,
+      onProgress,
+      signal
     );
     
-    return results;
+    // Keep search result order
+    const posts = newUrns
+      .map(urn => cardPosts.get(urn) ?? visitedPosts.get(urn))
+      .filter((post): post is PostResult => !!post);
+    
+    return { posts, failures, stats, foundLinks };
   } finally {
+    stats.durationMs = Date.now() - startedAt.getTime();
+    stats.cancelled = signal?.aborted ?? false;
     try { await page.close(); } catch (_) {}
   }
 };
 
+/**
+ * Extract the given posts by opening their pages (no search)
+ * NO database operations - returns pure results, in the order of `urns`
+ */
+const performScrape = async (
+  context: BrowserContext,
+  urns: string[],
+  options: SearchOptions
+): Promise<SearchResponse> => {
+  const pacing = getPacingPolicy();
+  const {
+    concurrency = pacing.maxConcurrency,
+    postTimeoutMs = 30000,
+    maxRetries = 2,
+    retryBackoffMs = 1000,
+    commentsLimit = 0,
+    screenshots = false,
+    onProgress,
+    signal
+  } = options;
+  const startedAt = new Date();
+  const stats = createSearchStats('full', startedAt);
+  stats.urnsFound = urns.length;
+  
+  try {
+    const { visitedPosts, failures } = await visitPostPages(
+      context,
+      urns,
+      concurrency,
+      { timeoutMs: postTimeoutMs, maxRetries, retryBackoffMs, commentsLimit, screenshots, pacing },
+      stats,
+      onProgress,
+      signal
+    );
+    
+    const posts = urns
+      .map(urn => visitedPosts.get(urn))
+      .filter((post): post is PostResult => !!post);
+    
+    return { posts, failures, stats, foundLinks: urns.map(buildPostUrl) };
+  } finally {
+    stats.durationMs = Date.now() - startedAt.getTime();
+    stats.cancelled = signal?.aborted ?? false;
+  }
+};
+
+/**
+ * Validate auth and run `work` in a browser context with the saved session
+ * The context comes from the warm browser pool, launched only when none can be reused
+ * @throws Error if authentication is invalid
+ * @throws PageBudgetError if the page-load budget is used up
+ */
+const withAuthenticatedContext = async <T>(
+  headless: boolean,
+  work: (context: BrowserContext) => Promise<T>,
+  onProgress?: (event: SearchProgress) => void
+): Promise<T> => {
+  // Validate authentication
+  const authData = await loadAuthData();
+  if (authData?.invalidatedAt) {
+    throw new Error(`LinkedIn rejected the saved session (${authData.invalidReason ?? 'login required'}). Run the auth tool with action='authenticate' to log in again.`);
+  }
+  if (!authData || !await isAuthDataValid(authData)) {
+    throw new Error('No valid LinkedIn authentication found. Please authenticate first.');
+  }
+  
+  // Don't launch a browser only to be refused by the budget
+  const budget = getPageBudgetStatus();
+  if (budget.remaining === 0) {
+    throw new PageBudgetError(budget);
+  }
+  
+  onProgress?.({
+    phase: 'launching',
+    message: isBrowserWarm(headless, authData) ? 'Reusing open browser' : `Launching ${headless ? 'headless ' : ''}browser`
+  });
+  return withBrowserContext(headless, authData, work);
+};
+
 /**
  * Main search function - validates auth, launches browser, performs search
  * Returns post results without any database operations
  * 
  * @param keywords - Search keywords
  * @param pagination - Number of scroll pages to load (default: 3)
- * @param options - Search options (headless mode, concurrency)
- * @returns Array of post results
+ * @param options - Search options (headless mode, concurrency, facets, extraction mode, scroll limits)
+ * @returns Post results and search statistics
  * @throws Error if authentication is invalid or search fails
+ * @throws PageBudgetError if the page-load budget is used up
+ * @throws LinkedInBlockedError if LinkedIn shows a login wall, checkpoint, captcha or rate-limit page
  */
 export const searchLinkedInPosts = async (
   keywords: string,
   pagination: number = 3,
   options: SearchOptions = {}
-): Promise<PostResult[]> => {
-  // Validate authentication
-  const authData = await loadAuthData();
-  if (!authData || !await isAuthDataValid(authData)) {
-    throw new Error('No valid LinkedIn authentication found. Please authenticate first.');
-  }
-  
-  // Launch browser with saved auth
+): Promise<SearchResponse> => {
   // Use headless mode from options (default: false for visibility)
   const { headless = false } = options;
-  const browser: Browser = await chromium.launch({ headless });
-  const context: BrowserContext = await browser.newContext({ storageState: authData });
-  
-  try {
-    return await performSearch(context, keywords, pagination, options);
-  } finally {
-    await browser.close();
-  }
+  return withAuthenticatedContext(
+    headless,
+    context => performSearch(context, keywords, pagination, options),
+    options.onProgress
+  );
 };
 
+/**
+ * Run several searches back to back in one browser session
+ * Each query uses its own keywords, pagination, target count and facets; the other options are shared.
+ * A post found by more than one query is only scraped for the first query that found it.
+ * A query that fails is reported in its result and the batch moves on to the next one, unless
+ * LinkedIn showed a block page (login wall, checkpoint, captcha, rate limit): the batch stops there.
+ * 
+ * @returns One result per query, in order (after a cancellation or a block page, only the queries that had started)
+ * @throws Error if authentication is invalid
+ * @throws PageBudgetError if the page-load budget is used up before the first query
+ */
+export const searchLinkedInPostsBatch = async (
+  queries: BatchSearchQuery[],
+  options: SearchOptions = {}
+): Promise<BatchQueryResult[]> => {
+  const { headless = false, extractionMode = 'full', onProgress, signal } = options;
+  
+  return withAuthenticatedContext(headless, async context => {
+    const seenUrns = new Set<string>();
+    const results: BatchQueryResult[] = [];
+    
+    for (const [index, query] of queries.entries()) {
+      // Cancelled: queries not started yet are left out of the results
+      if (signal?.aborted) break;
+      
+      const startedAt = new Date();
+      // Tag each query's events with its position in the batch
+      const onQueryProgress = onProgress
+        ? (event: SearchProgress) => onProgress({ ...event, queryIndex: index, queryCount: queries.length })
+        : undefined;
+      try {
+        const response = await performSearch(
+          context,
+          query.keywords,
+          query.pagination,
+          { ...options, facets: query.facets, targetCount: query.targetCount, onProgress: onQueryProgress },
+          seenUrns
+        );
+        results.push({ query, ...response });
+      } catch (error) {
+        results.push({
+          query,
+          posts: [],
+          failures: [],
+          stats: { ...createSearchStats(extractionMode, startedAt), durationMs: Date.now() - startedAt.getTime() },
+          foundLinks: [],
+          error: error instanceof Error ? error.message : String(error),
+          blocked: error instanceof LinkedInBlockedError ? error.kind : undefined
+        });
+        if (error instanceof LinkedInBlockedError) break;
+      }
+    }
+    
+    return results;
+  }, onProgress);
+};
 
+/**
+ * Extract specific posts by URN - validates auth, opens each post page in the warm browser
+ * Uses the same pacing, page-load budget and block page detection as a search; facets,
+ * extraction mode and scroll options are ignored
+ * 
+ * @param urns - Post URNs (see parsePostUrn)
+ * @returns Post results and statistics (urnsFound is the number of URNs given)
+ * @throws Error if authentication is invalid
+ * @throws PageBudgetError if the page-load budget is used up
+ * @throws LinkedInBlockedError if LinkedIn shows a login wall, checkpoint, captcha or rate-limit page
+ */
+export const scrapeLinkedInPosts = async (
+  urns: string[],
+  options: SearchOptions = {}
+): Promise<SearchResponse> => {
+  const { headless = false } = options;
+  return withAuthenticatedContext(
+    headless,
+    context => performScrape(context, urns, options),
+    options.onProgress
+  );
+};
 
+/**
+ * Scroll several activity feeds (a profile's or company page's posts) back to back in one
+ * browser session and extract the new posts, like a batch search does for queries
+ * Posts are always extracted from their pages (extractionMode is ignored), and a post that
+ * shows up in more than one feed is only scraped for the first. A feed that fails is reported
+ * in its result and the scan moves on, unless LinkedIn showed a block page: the scan stops there.
+ * 
+ * @returns One result per feed, in order (after a cancellation or a block page, only the feeds that had started)
+ * @throws Error if authentication is invalid
+ * @throws PageBudgetError if the page-load budget is used up before the first feed
+ */
+export const scanLinkedInActivityFeeds = async (
+  feeds: ActivityFeedQuery[],
+  options: SearchOptions = {}
+): Promise<ActivityFeedResult[]> => {
+  const { headless = false, onProgress, signal } = options;
+  
+  return withAuthenticatedContext(headless, async context => {
+    const seenUrns = new Set<string>();
+    const results: ActivityFeedResult[] = [];
+    
+    for (const [index, feed] of feeds.entries()) {
+      if (signal?.aborted) break;
+      
+      const startedAt = new Date();
+      const onFeedProgress = onProgress
+        ? (event: SearchProgress) => onProgress({ ...event, queryIndex: index, queryCount: feeds.length })
+        : undefined;
+      try {
+        const response = await performFeedScan(
+          context,
+          { url: feed.url, label: feed.label, urnField: 'activity.updateUrn' },
+          feed.pagination,
+          { ...options, extractionMode: 'full', facets: undefined, targetCount: feed.targetCount, onProgress: onFeedProgress },
+          seenUrns
+        );
+        results.push({ feed, ...response });
+      } catch (error) {
+        results.push({
+          feed,
+          posts: [],
+          failures: [],
+          stats: { ...createSearchStats('full', startedAt), durationMs: Date.now() - startedAt.getTime() },
+          foundLinks: [],
+          error: error instanceof Error ? error.message : String(error)
+        });
+        if (error instanceof LinkedInBlockedError) break;
+      }
+    }
+    
+    return results;
+  }, onProgress);
+};
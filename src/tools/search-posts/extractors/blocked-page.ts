@@ -0,0 +1,61 @@
+/**
+ * Detection of pages LinkedIn shows instead of the content: login walls, security
+ * checkpoints, captchas and rate limiting
+ */
+
+import { Page, Response } from 'playwright';
+import type { BlockedPageKind } from '../utils/types.js';
+
+// Where LinkedIn sends a logged-out session
+const LOGIN_URL_PATTERN = /linkedin\.com\/(login|authwall|uas\/login|signup)/;
+// Security verification ("Let's do a quick security check", PIN challenge, ...)
+const CHECKPOINT_URL_PATTERN = /linkedin\.com\/checkpoint\//;
+const CAPTCHA_SELECTOR = 'iframe[src*="captcha"], #captcha-internal, [id*="captcha-challenge"]';
+const CHECKPOINT_TITLE_PATTERN = /security (verification|check)/i;
+const RATE_LIMIT_TITLE_PATTERN = /too many requests/i;
+
+/**
+ * Work out whether LinkedIn showed a block page instead of the requested one
+ * Reads the URL, the navigation's HTTP status (429, or LinkedIn's 999 for denied requests),
+ * the title and captcha frames, never the page text, so post content can't trigger it.
+ * Returns null when the page looks normal.
+ */
+export const detectBlockedPage = async (page: Page, response?: Response | null): Promise<BlockedPageKind | null> => {
+  const status = response?.status();
+  if (status === 429 || status === 999) {
+    return 'rate-limit';
+  }
+  
+  const url = page.url();
+  if (CHECKPOINT_URL_PATTERN.test(url)) {
+    return (await hasCaptcha(page)) ? 'captcha' : 'checkpoint';
+  }
+  if (LOGIN_URL_PATTERN.test(url)) {
+    return 'login';
+  }
+  
+  try {
+    const title = await page.title();
+    if (RATE_LIMIT_TITLE_PATTERN.test(title)) {
+      return 'rate-limit';
+    }
+    if (CHECKPOINT_TITLE_PATTERN.test(title)) {
+      return 'checkpoint';
+    }
+  } catch (_) {
+    // Page may be closed or navigating
+  }
+  
+  return (await hasCaptcha(page)) ? 'captcha' : null;
+};
+
+/**
+ * Whether the page shows a captcha challenge
+ */
+const hasCaptcha = async (page: Page): Promise<boolean> => {
+  try {
+    return (await page.locator(CAPTCHA_SELECTOR).count()) > 0;
+  } catch (_) {
+    return false;
+  }
+};
@@ -0,0 +1,136 @@
+/**
+ * LinkedIn post comments extraction
+ * Expands the comment list on a post page and reads the first top-level comments
+ */
+
+import { Page } from 'playwright';
+import { getStrategies, getStrategiesFor } from '../utils/selector-registry.js';
+import { normalizeAuthorName } from './metadata.js';
+import type { PostComment, SelectorMatches } from '../utils/types.js';
+
+// comments.item is page-level; the other fields are read inside each comment
+const COMMENT_FIELDS = [
+  'comments.item',
+  'comments.authorName',
+  'comments.authorHeadline',
+  'comments.text',
+  'comments.time'
+];
+
+// "Load more comments" clicks before giving up on reaching the limit
+const MAX_LOAD_MORE_CLICKS = 5;
+
+/**
+ * Raw comment list as read from the DOM
+ */
+interface RawComments {
+  comments: { authorName?: string; authorHeadline?: string; text?: string; relativeTime?: string }[];
+  matches: SelectorMatches;
+}
+
+/**
+ * Click the first visible element of a registry field
+ * Returns true if something was clicked
+ */
+const clickFirstVisible = async (page: Page, field: string): Promise<boolean> => {
+  for (const strategy of getStrategies(field)) {
+    const button = page.locator(strategy.selector).first();
+    if (await button.isVisible().catch(() => false)) {
+      await button.click().catch(() => {});
+      return true;
+    }
+  }
+  return false;
+};
+
+/**
+ * Count rendered comments (replies included, close enough to decide whether to load more)
+ */
+const countComments = async (page: Page): Promise<number> => {
+  const selector = getStrategies('comments.item').map(s => s.selector).join(', ');
+  return page.locator(selector).count().catch(() => 0);
+};
+
+/**
+ * Expand and read the first `limit` top-level comments of a post page
+ * Posts without comments return an empty list. Never throws: comments are optional.
+ */
+export const extractComments = async (
+  page: Page,
+  limit: number,
+  matches?: SelectorMatches
+): Promise<PostComment[]> => {
+  if (limit <= 0) {
+    return [];
+  }
+
+  try {
+    // Comments may be collapsed behind the "N comments" button
+    if (await countComments(page) === 0 && await clickFirstVisible(page, 'comments.open')) {
+      const itemSelector = getStrategies('comments.item').map(s => s.selector).join(', ');
+      await page.waitForSelector(itemSelector, { timeout: 5000 }).catch(() => {});
+    }
+
+    for (let clicks = 0; clicks < MAX_LOAD_MORE_CLICKS && await countComments(page) < limit; clicks++) {
+      if (!await clickFirstVisible(page, 'comments.loadMore')) break;
+      await page.waitForTimeout(1500);
+    }
+
+    // Runs in the page: no named helpers, everything inline
+    const raw: RawComments = await page.evaluate(({ strategies, limit }) => {
+      const found: Record<string, string | null> = {};
+      const itemStrategy = strategies['comments.item'].find(s => !!document.querySelector(s.selector));
+      if (!itemStrategy) {
+        return { comments: [], matches: found };
+      }
+      found['comments.item'] = itemStrategy.name;
+
+      // Top-level comments only: skip replies nested in another comment
+      const items = Array.from(document.querySelectorAll(itemStrategy.selector))
+        .filter(item => !item.parentElement?.closest(itemStrategy.selector))
+        .slice(0, limit);
+
+      const comments = items.map(item => {
+        const values: Record<string, string | undefined> = {};
+        for (const field of ['comments.authorName', 'comments.authorHeadline', 'comments.text', 'comments.time']) {
+          for (const strategy of strategies[field]) {
+            const match = item.querySelector(strategy.selector);
+            const value = field === 'comments.text'
+              ? ((match as HTMLElement | null)?.innerText || '').replace(/[ \t]+/g, ' ').trim()
+              : (match?.textContent || '').replace(/\s+/g, ' ').trim();
+            if (value) {
+              values[field] = value;
+              found[field] = found[field] ?? strategy.name;
+              break;
+            }
+          }
+          found[field] = found[field] ?? null;
+        }
+        return {
+          authorName: values['comments.authorName'],
+          authorHeadline: values['comments.authorHeadline'],
+          text: values['comments.text'],
+          relativeTime: values['comments.time']
+        };
+      });
+
+      return { comments, matches: found };
+    }, { strategies: getStrategiesFor(COMMENT_FIELDS), limit });
+
+    if (matches) {
+      Object.assign(matches, raw.matches);
+    }
+
+    return raw.comments
+      .filter(c => !!c.text)
+      .map(c => ({
+        authorName: c.authorName ? normalizeAuthorName(c.authorName) : 'Unknown',
+        authorHeadline: c.authorHeadline,
+        text: c.text!,
+        relativeTime: c.relativeTime
+      }));
+  } catch (error) {
+    // Comments are optional, never fail the post over them
+    return [];
+  }
+};
@@ -0,0 +1,151 @@
+/**
+ * LinkedIn post entity extraction
+ * Hashtags, @mentions and links from the anchors inside the post commentary
+ */
+
+import { Page } from 'playwright';
+import { getStrategies } from '../utils/selector-registry.js';
+import type { PostLink, PostMention, RawAnchor } from '../utils/types.js';
+
+/**
+ * Structured entities found in a post
+ */
+export interface PostEntities {
+  hashtags: string[];
+  mentions: PostMention[];
+  links: PostLink[];
+}
+
+// Job boards, ATS hosts and form builders recruiters link to
+const APPLY_URL_PATTERN = /linkedin\.com\/jobs\/|forms\.gle\/|docs\.google\.com\/forms|forms\.office\.com|typeform\.com|greenhouse\.io|lever\.co|workable\.com|ashbyhq\.com|smartrecruiters\.com|myworkdayjobs\.com|bamboohr\.com|recruitee\.com|teamtailor\.com|personio\.|\/\/(jobs|careers)\.|\/(careers?|jobs?|vacanc(y|ies)|apply)(\/|\?|$)/i;
+
+// Text around a link that marks it as an application target ("Apply here: lnkd.in/...")
+const APPLY_TEXT_PATTERN = /\b(apply|application|careers?|job (post|description|link)|vacanc(y|ies)|open (role|position)s?)\b/i;
+
+const HASHTAG_PATTERN = /#([\p{L}\p{N}_]+)/gu;
+
+/**
+ * Normalize a hashtag for storage: no leading #, lowercase
+ */
+export const normalizeHashtag = (tag: string): string => {
+  return tag.replace(/^#/, '').trim().toLowerCase();
+};
+
+/**
+ * Unwrap LinkedIn's outbound redirect (linkedin.com/redir/redirect?url=...) and drop tracking params
+ */
+export const unwrapLinkedInRedirect = (href: string): string => {
+  try {
+    const url = new URL(href);
+    if (/(^|\.)linkedin\.com$/.test(url.hostname) && url.pathname.startsWith('/redir/')) {
+      const target = url.searchParams.get('url');
+      if (target) {
+        return target;
+      }
+    }
+    url.searchParams.delete('trk');
+    url.searchParams.delete('trackingId');
+    return url.toString();
+  } catch (_) {
+    return href;
+  }
+};
+
+/**
+ * Classify commentary anchors into hashtags, mentions and links
+ * Hashtags written as plain text in the description are picked up too
+ */
+export const classifyAnchors = (anchors: RawAnchor[], description: string = ''): PostEntities => {
+  const hashtags = new Set<string>();
+  const mentions = new Map<string, PostMention>();
+  const links = new Map<string, PostLink>();
+
+  for (const anchor of anchors) {
+    const href = unwrapLinkedInRedirect(anchor.href);
+    const text = anchor.text.replace(/\s+/g, ' ').trim();
+
+    let url: URL;
+    try {
+      url = new URL(href);
+    } catch (_) {
+      continue;
+    }
+
+    const isLinkedIn = /(^|\.)linkedin\.com$/.test(url.hostname);
+
+    // Hashtag anchors point at the hashtag feed; their text is "hashtag#tag"
+    if (isLinkedIn && url.pathname.startsWith('/feed/hashtag')) {
+      const tag = url.searchParams.get('keywords') || text.match(/#([\p{L}\p{N}_]+)/u)?.[1];
+      if (tag) hashtags.add(normalizeHashtag(tag));
+      continue;
+    }
+
+    const mentionMatch = isLinkedIn && url.pathname.match(/^\/(in|company|school|showcase)\/[^/]+/);
+    if (mentionMatch) {
+      const profileUrl = `https://www.linkedin.com${mentionMatch[0]}/`;
+      if (!mentions.has(profileUrl)) {
+        mentions.set(profileUrl, {
+          name: text.replace(/^@/, ''),
+          url: profileUrl,
+          kind: mentionMatch[1] === 'in' ? 'person' : 'company'
+        });
+      }
+      continue;
+    }
+
+    const isApply = APPLY_URL_PATTERN.test(href) ||
+      APPLY_TEXT_PATTERN.test(text) ||
+      APPLY_TEXT_PATTERN.test(anchor.context ?? '');
+    const existing = links.get(href);
+    if (!existing || (isApply && existing.kind !== 'apply')) {
+      links.set(href, { url: href, text: text || href, kind: isApply ? 'apply' : 'link' });
+    }
+  }
+
+  for (const match of description.matchAll(HASHTAG_PATTERN)) {
+    hashtags.add(normalizeHashtag(match[1]));
+  }
+
+  return {
+    hashtags: Array.from(hashtags),
+    mentions: Array.from(mentions.values()),
+    links: Array.from(links.values())
+  };
+};
+
+/**
+ * Read the anchors inside the post commentary (first post.commentary strategy present on the page)
+ */
+export const extractCommentaryAnchors = async (page: Page): Promise<RawAnchor[]> => {
+  for (const strategy of getStrategies('post.commentary')) {
+    try {
+      const anchors: RawAnchor[] | null = await page.$$eval(strategy.selector, (elements) => {
+        if (elements.length === 0) return null;
+        return elements.flatMap(el => Array.from(el.querySelectorAll('a[href]')).map(a => ({
+          href: (a as HTMLAnchorElement).href,
+          text: a.textContent || '',
+          // Text right before the link, e.g. "Apply here: "
+          context: (a.previousSibling?.textContent || '').slice(-60)
+        })));
+      });
+      if (anchors) {
+        return anchors;
+      }
+    } catch (error) {
+      // Invalid selector - try the next strategy
+    }
+  }
+  return [];
+};
+
+/**
+ * Extract hashtags, mentions and links from a post page
+ */
+export const extractPostEntities = async (page: Page, description: string): Promise<PostEntities> => {
+  try {
+    return classifyAnchors(await extractCommentaryAnchors(page), description);
+  } catch (error) {
+    // Entities are optional, never fail the post over them
+    return classifyAnchors([], description);
+  }
+};
@@ -4,18 +4,87 @@
  */
 
 import { Page } from 'playwright';
+import { matchFirst } from './selector-match.js';
+import type { SelectorMatches } from '../utils/types.js';
 
 /**
- * Extract profile image URL
+ * Clean up a raw author name (handles LinkedIn's duplicate text bug)
+ */
+export const normalizeAuthorName = (rawName: string): string => {
+  const trimmed = rawName.trim();
+  
+  const halfLength = trimmed.length / 2;
+  const isDuplicate = 
+    trimmed.length % 2 === 0 && 
+    trimmed.substring(0, halfLength) === trimmed.substring(halfLength);
+  
+  return isDuplicate ? trimmed.substring(0, halfLength).trim() : trimmed;
+};
+
+/**
+ * Clean up a raw post date (drops bullets and the "Edited" marker)
  */
-export const extractProfileImage = async (page: Page): Promise<string | undefined> => {
+export const normalizePostDate = (rawDate: string): string => {
+  return rawDate
+    .replace(/•/g, '')
+    .replace(/\bEdited\b/gi, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+};
+
+/**
+ * Author identity parsed from an actor link
+ * `profileUrl` is the canonical /in/<slug>/ or /company/<slug>/ URL; `urn` comes from the
+ * miniProfileUrn/miniCompanyUrn tracking parameter when LinkedIn includes it
+ */
+export interface AuthorIdentity {
+  profileUrl: string;
+  urn?: string;
+}
+
+/**
+ * Parse an actor link into a canonical profile URL (and URN when present)
+ * Returns undefined for links that aren't member/company profiles
+ */
+export const parseAuthorIdentity = (href: string): AuthorIdentity | undefined => {
   try {
-    const profileImageLocator = page.locator(
-      'xpath=//div[contains(@class, "ivm-view-attr__img-wrapper")]//img[contains(@class, "EntityPhoto-circle")]'
-    );
-    if (await profileImageLocator.count() > 0) {
-      return await profileImageLocator.first().getAttribute('src') || undefined;
+    const url = new URL(href, 'https://www.linkedin.com');
+    const match = url.pathname.match(/^\/(in|company|school|showcase)\/([^/]+)/);
+    if (!match) {
+      return undefined;
     }
+    
+    const urnParam = url.searchParams.get('miniProfileUrn') || url.searchParams.get('miniCompanyUrn');
+    return {
+      profileUrl: `https://www.linkedin.com/${match[1]}/${decodeURIComponent(match[2]).toLowerCase()}/`,
+      urn: urnParam ? decodeURIComponent(urnParam) : undefined
+    };
+  } catch (_) {
+    return undefined;
+  }
+};
+
+/**
+ * Extract author profile URL and URN
+ */
+export const extractAuthorIdentity = async (page: Page, matches?: SelectorMatches): Promise<AuthorIdentity | undefined> => {
+  try {
+    const rawHref = await matchFirst(page, 'post.authorProfileUrl', matches);
+    if (rawHref !== undefined) {
+      return parseAuthorIdentity(rawHref);
+    }
+  } catch (error) {
+    // Silently fail for optional metadata
+  }
+  return undefined;
+};
+
+/**
+ * Extract profile image URL
+ */
+export const extractProfileImage = async (page: Page, matches?: SelectorMatches): Promise<string | undefined> => {
+  try {
+    return await matchFirst(page, 'post.profileImage', matches);
   } catch (error) {
     // Silently fail for optional metadata
   }
@@ -25,22 +94,11 @@ export const extractProfileImage = async (page: Page): Promise<string | undefine
 /**
  * Extract author name (with duplicate text handling)
  */
-export const extractAuthorName = async (page: Page): Promise<string | undefined> => {
+export const extractAuthorName = async (page: Page, matches?: SelectorMatches): Promise<string | undefined> => {
   try {
-    const nameLocator = page.locator(
-      'xpath=//span[contains(@class, "update-components-actor__title")]//span[contains(@class, "hoverable-link-text")]'
-    );
-    if (await nameLocator.count() > 0) {
-      const rawName = await nameLocator.first().textContent() || '';
-      const trimmed = rawName.trim();
-      
-      // Handle LinkedIn's duplicate text bug
-      const halfLength = trimmed.length / 2;
-      const isDuplicate = 
-        trimmed.length % 2 === 0 && 
-        trimmed.substring(0, halfLength) === trimmed.substring(halfLength);
-      
-      return isDuplicate ? trimmed.substring(0, halfLength).trim() : trimmed;
+    const rawName = await matchFirst(page, 'post.authorName', matches);
+    if (rawName !== undefined) {
+      return normalizeAuthorName(rawName);
     }
   } catch (error) {
     // Silently fail for optional metadata
@@ -51,18 +109,11 @@ export const extractAuthorName = async (page: Page): Promise<string | undefined>
 /**
  * Extract post date
  */
-export const extractPostDate = async (page: Page): Promise<string | undefined> => {
+export const extractPostDate = async (page: Page, matches?: SelectorMatches): Promise<string | undefined> => {
   try {
-    const dateLocator = page.locator(
-      'xpath=//span[contains(@class, "update-components-actor__sub-description")]//span[@aria-hidden="true"]'
-    );
-    if (await dateLocator.count() > 0) {
-      const rawDate = await dateLocator.first().textContent() || '';
-      return rawDate
-        .replace(/•/g, '')
-        .replace(/\bEdited\b/gi, '')
-        .replace(/\s+/g, ' ')
-        .trim();
+    const rawDate = await matchFirst(page, 'post.postDate', matches);
+    if (rawDate !== undefined) {
+      return normalizePostDate(rawDate);
     }
   } catch (error) {
     // Silently fail for optional metadata
@@ -73,13 +124,10 @@ export const extractPostDate = async (page: Page): Promise<string | undefined> =
 /**
  * Extract like count
  */
-export const extractLikeCount = async (page: Page): Promise<string | undefined> => {
+export const extractLikeCount = async (page: Page, matches?: SelectorMatches): Promise<string | undefined> => {
   try {
-    const likeLocator = page.locator(
-      'xpath=//span[contains(@class, "social-details-social-counts__reactions-count") and @aria-hidden="true"]'
-    );
-    if (await likeLocator.count() > 0) {
-      const rawLikes = await likeLocator.first().textContent() || '';
+    const rawLikes = await matchFirst(page, 'post.likeCount', matches);
+    if (rawLikes !== undefined) {
       return rawLikes.replace(/\s+/g, ' ').trim();
     }
   } catch (error) {
@@ -91,13 +139,10 @@ export const extractLikeCount = async (page: Page): Promise<string | undefined>
 /**
  * Extract comment count
  */
-export const extractCommentCount = async (page: Page): Promise<string | undefined> => {
+export const extractCommentCount = async (page: Page, matches?: SelectorMatches): Promise<string | undefined> => {
   try {
-    const commentLocator = page.locator(
-      'xpath=//span[@aria-hidden="true" and contains(normalize-space(.), "comments")]'
-    );
-    if (await commentLocator.count() > 0) {
-      const rawComments = await commentLocator.first().textContent() || '';
+    const rawComments = await matchFirst(page, 'post.commentCount', matches);
+    if (rawComments !== undefined) {
       return rawComments.replace(/\s+/g, ' ').trim();
     }
   } catch (error) {
@@ -109,13 +154,10 @@ export const extractCommentCount = async (page: Page): Promise<string | undefine
 /**
  * Extract author occupation/headline
  */
-export const extractAuthorOccupation = async (page: Page): Promise<string | undefined> => {
+export const extractAuthorOccupation = async (page: Page, matches?: SelectorMatches): Promise<string | undefined> => {
   try {
-    const occupationLocator = page.locator(
-      'xpath=//span[contains(@class, "update-components-actor__description")]//span[@aria-hidden="true"]'
-    );
-    if (await occupationLocator.count() > 0) {
-      const rawOccupation = await occupationLocator.first().textContent() || '';
+    const rawOccupation = await matchFirst(page, 'post.authorOccupation', matches);
+    if (rawOccupation !== undefined) {
       return rawOccupation.replace(/\s+/g, ' ').trim();
     }
   } catch (error) {
@@ -2,92 +2,186 @@
  * LinkedIn post content extraction
  */
 
-import { Page } from 'playwright';
-import type { PostResult } from '../utils/types.js';
+import { Page, errors } from 'playwright';
+import { PostExtractionError } from '../utils/errors.js';
+import { extractPostEntities } from './entities.js';
+import { extractComments } from './comments.js';
+import { getRepostContainerSelector } from './repost.js';
+import { getStrategies } from '../utils/selector-registry.js';
+import type { PostResult, PostFailureReason, SelectorMatches } from '../utils/types.js';
+
+const NO_DESCRIPTION = '[No description content found]';
+const DESCRIPTION_FAILED = '[Description extraction failed]';
 
 /**
  * Extract post description from page
+ * Uses the first post.commentary strategy that yields text. The commentary of a
+ * reshared original is left out unless it is the only commentary on the page.
  */
-export const extractDescription = async (page: Page): Promise<string> => {
+export const extractDescription = async (page: Page, matches?: SelectorMatches): Promise<string> => {
+  const repostContainer = getRepostContainerSelector();
+  
   try {
-    const description = await page.$$eval(
-      'div.update-components-text.relative.update-components-update-v2__commentary',
-      (divs) =>
-        divs
-          .map((d) => {
-            const text = (d as HTMLElement).innerText || '';
-            // Collapse consecutive spaces/tabs on same line, but preserve line breaks
-            return text.replace(/[ \t]+/g, ' ').trim();
-          })
-          .filter((t) => t.length > 0)
-          .join('\n\n')
-    );
-    
-    if (!description || description.trim().length === 0) {
-      return '[No description content found]';
+    for (const strategy of getStrategies('post.commentary')) {
+      const description = await page.$$eval(
+        strategy.selector,
+        (divs, repostContainer) => {
+          const outer = divs.filter(d => !d.closest(repostContainer));
+          return (outer.length > 0 ? outer : divs)
+            .map((d) => {
+              const text = (d as HTMLElement).innerText || '';
+              // Collapse consecutive spaces/tabs on same line, but preserve line breaks
+              return text.replace(/[ \t]+/g, ' ').trim();
+            })
+            .filter((t) => t.length > 0)
+            .join('\n\n');
+        },
+        repostContainer
+      ).catch(() => '');
+      
+      if (description && description.trim().length > 0) {
+        if (matches) matches['post.commentary'] = strategy.name;
+        return description;
+      }
     }
     
-    return description;
+    if (matches) matches['post.commentary'] = null;
+    return NO_DESCRIPTION;
   } catch (error) {
-    return '[Description extraction failed]';
+    return DESCRIPTION_FAILED;
+  }
+};
+
+/**
+ * Work out why a post page has no content (login wall, removed post, ...)
+ * Returns null when the page looks like a normal post page
+ */
+export const classifyPostPage = async (page: Page): Promise<PostFailureReason | null> => {
+  const url = page.url();
+  if (/linkedin\.com\/(login|authwall|checkpoint|uas\/login)/.test(url)) {
+    return 'auth-wall';
+  }
+  
+  try {
+    const bodyText = await page.locator('body').innerText({ timeout: 2000 });
+    if (/this (post|content) (cannot be displayed|isn.t available|is no longer available)|page not found|this page doesn.t exist/i.test(bodyText)) {
+      return 'removed';
+    }
+    if (/sign in to (view|see)|join linkedin|agree & join/i.test(bodyText)) {
+      return 'auth-wall';
+    }
+  } catch (_) {
+    // Page may be closed or navigating
   }
+  
+  return null;
 };
 
 /**
  * Extract all post content from a LinkedIn post page
+ * 
+ * @param timeoutMs - How long to wait for the post content to render
+ * @param commentsLimit - Capture up to this many top comments (0 skips comment capture)
+ * @throws PostExtractionError with a typed reason when the post can't be extracted
  */
 export const extractPostContent = async (
   page: Page,
   url: string,
-  urn: string
+  urn: string,
+  timeoutMs: number = 30000,
+  commentsLimit: number = 0
 ): Promise<PostResult> => {
   // Import metadata extractors dynamically to avoid circular deps
   const { 
     extractProfileImage, 
     extractAuthorName, 
     extractAuthorOccupation,
+    extractAuthorIdentity,
     extractPostDate, 
     extractLikeCount, 
     extractCommentCount 
   } = await import('./metadata.js');
+  const { extractRepost } = await import('./repost.js');
   
   // Wait for actual post description content to appear (not just the DOM element)
-  await page.waitForFunction(
-    () => {
-      const el = document.querySelector('div.update-components-text.relative.update-components-update-v2__commentary');
-      return el && el.textContent && el.textContent.trim().length > 10;
-    },
-    { timeout: 0 }
-  );
+  const commentarySelectors = getStrategies('post.commentary').map(s => s.selector);
+  try {
+    await page.waitForFunction(
+      (selectors) => selectors.some(selector => {
+        const el = document.querySelector(selector);
+        return !!(el && el.textContent && el.textContent.trim().length > 10);
+      }),
+      commentarySelectors,
+      { timeout: timeoutMs }
+    );
+  } catch (error) {
+    const reason = await classifyPostPage(page);
+    if (reason) {
+      throw new PostExtractionError(reason, `Post content unavailable (${reason}) at ${page.url()}`);
+    }
+    if (error instanceof errors.TimeoutError) {
+      throw new PostExtractionError('timeout', `Post content did not appear within ${timeoutMs}ms`);
+    }
+    throw new PostExtractionError('unknown', error instanceof Error ? error.message : String(error));
+  }
   
-  // Extract all content in parallel
+  // Extract all content in parallel, recording which selector strategy matched each field
+  const selectorMatches: SelectorMatches = {};
   const [
     description,
     profileImage,
     authorName,
     authorOccupation,
+    authorIdentity,
     postDate,
     likeCount,
-    commentCount
+    commentCount,
+    repost
   ] = await Promise.all([
-    extractDescription(page),
-    extractProfileImage(page),
-    extractAuthorName(page),
-    extractAuthorOccupation(page),
-    extractPostDate(page),
-    extractLikeCount(page),
-    extractCommentCount(page)
+    extractDescription(page, selectorMatches),
+    extractProfileImage(page, selectorMatches),
+    extractAuthorName(page, selectorMatches),
+    extractAuthorOccupation(page, selectorMatches),
+    extractAuthorIdentity(page, selectorMatches),
+    extractPostDate(page, selectorMatches),
+    extractLikeCount(page, selectorMatches),
+    extractCommentCount(page, selectorMatches),
+    extractRepost(page, selectorMatches)
   ]);
   
+  if (description === NO_DESCRIPTION || description === DESCRIPTION_FAILED) {
+    throw new PostExtractionError('empty-content', 'Post description could not be read');
+  }
+  
+  const { hashtags, mentions, links } = await extractPostEntities(page, description);
+  const comments = commentsLimit > 0
+    ? await extractComments(page, commentsLimit, selectorMatches)
+    : undefined;
+  
+  // Shared as-is: the visible actor and text are the original's
+  if (repost?.kind === 'repost') {
+    repost.originalAuthorName = authorName;
+    repost.originalAuthorOccupation = authorOccupation;
+    repost.originalDescription = description;
+  }
+  
   return {
     link: url,
     description,
     profileImage,
     authorName,
     authorOccupation,
+    authorProfileUrl: authorIdentity?.profileUrl,
+    authorUrn: authorIdentity?.urn,
     postDate,
     likeCount,
-    commentCount
+    commentCount,
+    hashtags,
+    mentions,
+    links,
+    repost,
+    comments,
+    selectorMatches
   };
 };
 
@@ -0,0 +1,131 @@
+/**
+ * LinkedIn repost extraction
+ * Detects reposted/reshared updates and reads the original post nested inside them
+ */
+
+import { Page } from 'playwright';
+import { getStrategies, getStrategiesFor } from '../utils/selector-registry.js';
+import { buildPostUrl } from '../utils/url-builder.js';
+import { normalizeAuthorName } from './metadata.js';
+import type { RepostInfo, SelectorMatches } from '../utils/types.js';
+
+// repost.container and repost.header are page-level; the other fields are read inside the container
+const REPOST_FIELDS = [
+  'repost.container',
+  'repost.header',
+  'repost.authorName',
+  'repost.authorOccupation',
+  'repost.commentary',
+  'repost.link'
+];
+
+/**
+ * Raw repost data as read from the DOM
+ */
+interface RawRepost {
+  reshared: boolean;
+  reposted: boolean;
+  values: Record<string, string | undefined>;
+  matches: SelectorMatches;
+}
+
+/**
+ * Pull an activity/share URN out of a data-urn value or a /feed/update/ href
+ */
+export const parseOriginalUrn = (raw: string | undefined): string | undefined => {
+  if (!raw) return undefined;
+  const match = decodeURIComponent(raw).match(/urn:li:(activity|share|ugcPost):[\w-]+/);
+  return match ? match[0] : undefined;
+};
+
+/**
+ * Get the repost.container selectors as one CSS list (for in-page `closest` checks)
+ */
+export const getRepostContainerSelector = (): string => {
+  return getStrategies('repost.container').map(s => s.selector).join(', ');
+};
+
+/**
+ * Detect a repost and read the original post
+ *
+ * - reshare: the reposter added their own commentary; the original is nested in a container
+ * - repost: shared as-is ("X reposted this"); the actor and commentary already are the original's,
+ *   so the caller fills the original fields from the main ones
+ *
+ * Returns undefined for ordinary posts
+ */
+export const extractRepost = async (page: Page, matches?: SelectorMatches): Promise<RepostInfo | undefined> => {
+  const strategies = getStrategiesFor(REPOST_FIELDS);
+
+  let raw: RawRepost;
+  try {
+    // Runs in the page: no named helpers, everything inline
+    raw = await page.evaluate((strategies) => {
+      const values: Record<string, string | undefined> = {};
+      const found: Record<string, string | null> = {};
+
+      const containerStrategy = strategies['repost.container']
+        .find(s => !!document.querySelector(s.selector));
+
+      // Most posts aren't reposts: only record the page-level fields when they match
+      if (containerStrategy) found['repost.container'] = containerStrategy.name;
+
+      const headerStrategy = strategies['repost.header'].find(s => {
+        const pattern = s.textPattern ? new RegExp(s.textPattern, 'i') : null;
+        return Array.from(document.querySelectorAll(s.selector))
+          .some(el => !pattern || pattern.test(el.textContent || ''));
+      });
+      if (headerStrategy) found['repost.header'] = headerStrategy.name;
+
+      const container = containerStrategy ? document.querySelector(containerStrategy.selector) : null;
+      if (container) {
+        for (const field of ['repost.authorName', 'repost.authorOccupation', 'repost.commentary', 'repost.link']) {
+          values[field] = undefined;
+          found[field] = null;
+          for (const strategy of strategies[field]) {
+            const match = container.querySelector(strategy.selector);
+            if (!match) continue;
+
+            const value = strategy.attribute
+              ? match.getAttribute(strategy.attribute) || ''
+              : field === 'repost.commentary'
+                ? ((match as HTMLElement).innerText || '').replace(/[ \t]+/g, ' ').trim()
+                : (match.textContent || '').replace(/\s+/g, ' ').trim();
+            if (value) {
+              values[field] = value;
+              found[field] = strategy.name;
+              break;
+            }
+          }
+        }
+      }
+
+      return { reshared: !!container, reposted: !!headerStrategy, values, matches: found };
+    }, strategies);
+  } catch (error) {
+    // Repost detection is optional, treat as an ordinary post
+    return undefined;
+  }
+
+  if (matches) {
+    Object.assign(matches, raw.matches);
+  }
+
+  if (raw.reshared && raw.values['repost.commentary']) {
+    const originalUrn = parseOriginalUrn(raw.values['repost.link']);
+    return {
+      kind: 'reshare',
+      originalAuthorName: raw.values['repost.authorName'] ? normalizeAuthorName(raw.values['repost.authorName']) : undefined,
+      originalAuthorOccupation: raw.values['repost.authorOccupation'],
+      originalUrn,
+      originalLink: originalUrn ? buildPostUrl(originalUrn) : undefined,
+      originalDescription: raw.values['repost.commentary']
+    };
+  }
+
+  if (raw.reposted) {
+    return { kind: 'repost', originalDescription: '' };
+  }
+
+  return undefined;
+};
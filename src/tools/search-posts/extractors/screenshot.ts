@@ -0,0 +1,40 @@
+/**
+ * Post screenshot capture
+ * Saves an image of the post, cropped to the post container, into the screenshots directory
+ */
+
+import path from 'path';
+import { Page } from 'playwright';
+import { getScreenshotsPath, ensureResourceDirectories } from '../../../utils/paths.js';
+import { getScreenshotFilename } from '../../../utils/screenshots.js';
+import { getStrategies } from '../utils/selector-registry.js';
+import type { SelectorMatches } from '../utils/types.js';
+
+const SCREENSHOT_TIMEOUT_MS = 5000;
+
+/**
+ * Capture the post on the page with the first post.container strategy that matches
+ * Returns the screenshot's file name, or null when no container could be captured
+ * (a missing screenshot never fails the post)
+ */
+export const capturePostScreenshot = async (page: Page, urn: string, matches?: SelectorMatches): Promise<string | null> => {
+  ensureResourceDirectories();
+  const filename = getScreenshotFilename(urn);
+  const filePath = path.join(getScreenshotsPath(), filename);
+  
+  for (const strategy of getStrategies('post.container')) {
+    try {
+      const container = page.locator(strategy.selector).first();
+      if (await container.count() === 0) continue;
+      
+      await container.screenshot({ path: filePath, timeout: SCREENSHOT_TIMEOUT_MS, animations: 'disabled' });
+      if (matches) matches['post.container'] = strategy.name;
+      return filename;
+    } catch (_) {
+      // Element detached or not visible, try the next strategy
+    }
+  }
+  
+  if (matches) matches['post.container'] = null;
+  return null;
+};
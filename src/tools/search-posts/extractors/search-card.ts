@@ -0,0 +1,180 @@
+/**
+ * LinkedIn search result card extraction
+ * Reads post content straight from the cards rendered on the search results page
+ */
+
+import { Page } from 'playwright';
+import { buildPostUrl } from '../utils/url-builder.js';
+import { getStrategiesFor } from '../utils/selector-registry.js';
+import { normalizeAuthorName, normalizePostDate, parseAuthorIdentity } from './metadata.js';
+import { classifyAnchors } from './entities.js';
+import type { PostResult, RawAnchor, SelectorMatches } from '../utils/types.js';
+
+/**
+ * Raw card data as read from the DOM
+ */
+interface RawSearchCard {
+  urn: string;
+  description: string;
+  truncated: boolean;
+  reshared: boolean;
+  profileImage?: string;
+  authorName?: string;
+  authorOccupation?: string;
+  authorProfileUrl?: string;
+  postDate?: string;
+  likeCount?: string;
+  commentCount?: string;
+  anchors: RawAnchor[];
+  selectorMatches: SelectorMatches;
+}
+
+/**
+ * Result of parsing a single search card
+ * `complete` is false when the card is truncated, a reshare, or missing required fields,
+ * meaning the post page has to be opened to get the full content
+ */
+export interface SearchCardResult {
+  urn: string;
+  complete: boolean;
+  post: PostResult;
+}
+
+/**
+ * Registry fields read from each card
+ */
+const CARD_FIELDS = [
+  'search.commentary',
+  'search.profileImage',
+  'search.authorName',
+  'search.authorOccupation',
+  'search.authorProfileUrl',
+  'search.postDate',
+  'search.likeCount',
+  'search.commentCount'
+];
+
+/**
+ * Extract post data from every result card on the search page, keyed by URN
+ * Selectors come from the registry's search.* fields; each card records which strategy matched
+ */
+export const extractSearchCards = async (page: Page): Promise<Map<string, SearchCardResult>> => {
+  const strategies = getStrategiesFor(['search.updateUrn', 'search.card', 'search.seeMore', 'repost.container', ...CARD_FIELDS]);
+
+  // Runs in the page: no named helpers, everything inline
+  const rawCards: RawSearchCard[] = await page.evaluate(({ strategies, cardFields }) => {
+    const cards: RawSearchCard[] = [];
+    const seen = new Set<string>();
+    const cardSelector = strategies['search.card'].map(s => s.selector).join(', ');
+
+    for (const urnStrategy of strategies['search.updateUrn']) {
+      for (const el of Array.from(document.querySelectorAll(urnStrategy.selector))) {
+        const raw = urnStrategy.attribute ? el.getAttribute(urnStrategy.attribute) : el.textContent;
+        let urn: string | undefined;
+        try {
+          urn = urnStrategy.jsonPath
+            ? urnStrategy.jsonPath.split('.').reduce((value: any, key) => value?.[key], JSON.parse(raw || 'null'))
+            : raw?.trim() || undefined;
+        } catch (_) {
+          // Ignore JSON parse errors
+        }
+        if (typeof urn !== 'string' || !urn || seen.has(urn)) continue;
+        seen.add(urn);
+
+        const card = el.closest(cardSelector) || el;
+        const values: Record<string, string | undefined> = {};
+        const matches: Record<string, string | null> = { 'search.updateUrn': urnStrategy.name };
+        let anchors: RawAnchor[] = [];
+
+        // First non-empty value for each field, in strategy order
+        for (const field of cardFields) {
+          values[field] = undefined;
+          matches[field] = null;
+          for (const strategy of strategies[field]) {
+            const pattern = strategy.textPattern ? new RegExp(strategy.textPattern, 'i') : null;
+            const match = Array.from(card.querySelectorAll(strategy.selector))
+              .find(candidate => !pattern || pattern.test(candidate.textContent || ''));
+            if (!match) continue;
+
+            const value = strategy.attribute
+              ? match.getAttribute(strategy.attribute) || ''
+              : field === 'search.commentary'
+                ? (match as HTMLElement).innerText || ''
+                : (match.textContent || '').replace(/\s+/g, ' ').trim();
+            if (value) {
+              values[field] = value;
+              matches[field] = strategy.name;
+              if (field === 'search.commentary') {
+                anchors = Array.from(match.querySelectorAll('a[href]')).map(a => ({
+                  href: (a as HTMLAnchorElement).href,
+                  text: a.textContent || '',
+                  context: (a.previousSibling?.textContent || '').slice(-60)
+                }));
+              }
+              break;
+            }
+          }
+        }
+
+        const commentary = values['search.commentary'] || '';
+
+        // "…see more" toggle means LinkedIn cut the commentary short
+        const truncated = strategies['search.seeMore'].some(s => !!card.querySelector(s.selector)) ||
+          /…\s*more\s*$/i.test(commentary);
+
+        cards.push({
+          urn,
+          description: commentary.replace(/[ \t]+/g, ' ').replace(/…\s*more\s*$/i, '').trim(),
+          truncated,
+          reshared: strategies['repost.container'].some(s => !!card.querySelector(s.selector)),
+          profileImage: values['search.profileImage'],
+          authorName: values['search.authorName'],
+          authorOccupation: values['search.authorOccupation'],
+          authorProfileUrl: values['search.authorProfileUrl'],
+          postDate: values['search.postDate'],
+          likeCount: values['search.likeCount'],
+          commentCount: values['search.commentCount'],
+          anchors,
+          selectorMatches: matches
+        });
+      }
+    }
+
+    return cards;
+  }, { strategies, cardFields: CARD_FIELDS });
+
+  const results = new Map<string, SearchCardResult>();
+
+  for (const raw of rawCards) {
+    const authorName = raw.authorName ? normalizeAuthorName(raw.authorName) : undefined;
+    const postDate = raw.postDate ? normalizePostDate(raw.postDate) : undefined;
+    const authorIdentity = raw.authorProfileUrl ? parseAuthorIdentity(raw.authorProfileUrl) : undefined;
+
+    const { hashtags, mentions, links } = classifyAnchors(raw.anchors, raw.description);
+    // Reshares need the post page to split the reposter's text from the original
+    const complete = !raw.truncated && !raw.reshared && raw.description.length > 10 && !!authorName && !!postDate;
+
+    results.set(raw.urn, {
+      urn: raw.urn,
+      complete,
+      post: {
+        link: buildPostUrl(raw.urn),
+        description: raw.description,
+        profileImage: raw.profileImage,
+        authorName,
+        authorOccupation: raw.authorOccupation,
+        authorProfileUrl: authorIdentity?.profileUrl,
+        authorUrn: authorIdentity?.urn,
+        postDate,
+        likeCount: raw.likeCount,
+        commentCount: raw.commentCount,
+        hashtags,
+        mentions,
+        links,
+        selectorMatches: raw.selectorMatches
+      }
+    });
+  }
+
+  return results;
+};
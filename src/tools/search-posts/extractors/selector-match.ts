@@ -0,0 +1,63 @@
+/**
+ * Resolve registry fields against a page, trying each fallback strategy in order
+ */
+
+import { Page } from 'playwright';
+import { getStrategies } from '../utils/selector-registry.js';
+import type { SelectorMatches, SelectorStrategy } from '../utils/types.js';
+
+/**
+ * Read a strategy's value from a raw attribute/text (applies jsonPath)
+ */
+export const readStrategyValue = (strategy: SelectorStrategy, raw: string | null): string | undefined => {
+  if (!raw) return undefined;
+
+  if (!strategy.jsonPath) {
+    return raw.trim() ? raw : undefined;
+  }
+
+  try {
+    let value: any = JSON.parse(raw);
+    for (const key of strategy.jsonPath.split('.')) {
+      value = value?.[key];
+    }
+    return typeof value === 'string' && value ? value : undefined;
+  } catch (_) {
+    return undefined;
+  }
+};
+
+/**
+ * Get the first non-empty value for a field, recording which strategy matched
+ * Returns the raw (un-normalized) text or attribute value
+ */
+export const matchFirst = async (
+  page: Page,
+  field: string,
+  matches?: SelectorMatches
+): Promise<string | undefined> => {
+  for (const strategy of getStrategies(field)) {
+    try {
+      let locator = page.locator(strategy.selector);
+      if (strategy.textPattern) {
+        locator = locator.filter({ hasText: new RegExp(strategy.textPattern, 'i') });
+      }
+      if (await locator.count() === 0) continue;
+
+      const raw = strategy.attribute
+        ? await locator.first().getAttribute(strategy.attribute)
+        : await locator.first().textContent();
+      const value = readStrategyValue(strategy, raw);
+
+      if (value !== undefined) {
+        if (matches) matches[field] = strategy.name;
+        return value;
+      }
+    } catch (error) {
+      // Invalid selector or detached element - try the next strategy
+    }
+  }
+
+  if (matches) matches[field] = null;
+  return undefined;
+};
@@ -0,0 +1,217 @@
+/**
+ * Offline fixture regression suite for the extractors
+ * Loads saved LinkedIn HTML snapshots (post pages at their own URL, search pages with setContent) and compares extractor output
+ * against the expected JSON next to each snapshot. Needs no network and no login.
+ *
+ * Run directly with: npx tsx src/tools/search-posts/fixture-runner.ts [name-filter]
+ *
+ * Fixture layout:
+ *   fixtures/posts/<name>.html + <name>.expected.json   -> extractPostContent
+ *   fixtures/search/<name>.html + <name>.expected.json  -> extractSearchCards
+ *
+ * Only fields present in the expected JSON are checked; `null` means the field must be absent.
+ * Post fixtures are served at the post's own URL. `expectedBlock` checks detectBlockedPage after
+ * extraction, as a failed post page is checked before it can end a search (`null`: no block, the
+ * post just fails and the session stays valid).
+ * Capture new fixtures from a live page with capture-fixture.ts.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { chromium, Page, Response } from 'playwright';
+import { extractPostContent } from './extractors/post-content.js';
+import { extractSearchCards } from './extractors/search-card.js';
+import { detectBlockedPage } from './extractors/blocked-page.js';
+import { PostExtractionError } from './utils/errors.js';
+import { buildPostUrl } from './utils/url-builder.js';
+
+const FIXTURES_DIR = path.join(path.dirname(fileURLToPath(import.meta.url)), 'fixtures');
+
+// Short timeout: fixture content is already in the DOM, waiting only matters for failure fixtures
+const FIXTURE_TIMEOUT_MS = 1000;
+
+interface PostFixture {
+  urn: string;
+  expected?: Record<string, unknown>;
+  expectedError?: string;
+  expectedBlock?: string | null;
+}
+
+interface SearchFixture {
+  expected: unknown[];
+}
+
+/**
+ * Compare actual against expected, collecting a message per mismatching path
+ */
+const diff = (actual: unknown, expected: unknown, at: string, mismatches: string[]): void => {
+  if (expected === null) {
+    if (actual !== undefined && actual !== null) {
+      mismatches.push(`${at}: expected no value, got ${JSON.stringify(actual)}`);
+    }
+    return;
+  }
+
+  if (Array.isArray(expected)) {
+    if (!Array.isArray(actual)) {
+      mismatches.push(`${at}: expected an array, got ${JSON.stringify(actual)}`);
+      return;
+    }
+    if (actual.length !== expected.length) {
+      mismatches.push(`${at}: expected ${expected.length} items, got ${actual.length}`);
+    }
+    expected.forEach((item, index) => diff(actual[index], item, `${at}[${index}]`, mismatches));
+    return;
+  }
+
+  if (typeof expected === 'object') {
+    if (!actual || typeof actual !== 'object') {
+      mismatches.push(`${at}: expected an object, got ${JSON.stringify(actual)}`);
+      return;
+    }
+    for (const [key, value] of Object.entries(expected)) {
+      diff((actual as Record<string, unknown>)[key], value, `${at}.${key}`, mismatches);
+    }
+    return;
+  }
+
+  if (actual !== expected) {
+    mismatches.push(`${at}: expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`);
+  }
+};
+
+/**
+ * Load a fixture snapshot into the page (no navigation, no network)
+ */
+const loadFixture = async (page: Page, htmlPath: string): Promise<void> => {
+  const html = fs.readFileSync(htmlPath, 'utf-8');
+  await page.setContent(html, { waitUntil: 'domcontentloaded' });
+};
+
+/**
+ * Serve a post fixture at the post's URL and open it (the rest of the network stays blocked)
+ */
+const loadPostFixture = async (page: Page, htmlPath: string, url: string): Promise<Response | null> => {
+  const html = fs.readFileSync(htmlPath, 'utf-8');
+  const isPostUrl = (requested: URL) => requested.href === url;
+  await page.route(isPostUrl, route => route.fulfill({ status: 200, contentType: 'text/html', body: html }));
+  try {
+    return await page.goto(url, { waitUntil: 'domcontentloaded' });
+  } finally {
+    await page.unroute(isPostUrl);
+  }
+};
+
+/**
+ * Run a post page fixture through extractPostContent
+ */
+const runPostFixture = async (page: Page, htmlPath: string, fixture: PostFixture): Promise<string[]> => {
+  const mismatches: string[] = [];
+  const response = await loadPostFixture(page, htmlPath, buildPostUrl(fixture.urn));
+
+  try {
+    const result = await extractPostContent(page, buildPostUrl(fixture.urn), fixture.urn, FIXTURE_TIMEOUT_MS);
+    if (fixture.expectedError) {
+      mismatches.push(`expected error "${fixture.expectedError}", got a result`);
+    } else {
+      diff(result, fixture.expected ?? {}, 'result', mismatches);
+    }
+  } catch (error) {
+    const reason = error instanceof PostExtractionError ? error.reason : String(error);
+    if (reason !== fixture.expectedError) {
+      mismatches.push(`expected ${fixture.expectedError ? `error "${fixture.expectedError}"` : 'a result'}, got error "${reason}"`);
+    }
+  }
+
+  if (fixture.expectedBlock !== undefined) {
+    const block = await detectBlockedPage(page, response);
+    if (block !== fixture.expectedBlock) {
+      mismatches.push(`expected block ${JSON.stringify(fixture.expectedBlock)}, got ${JSON.stringify(block)}`);
+    }
+  }
+
+  return mismatches;
+};
+
+/**
+ * Run a search results fixture through extractSearchCards
+ */
+const runSearchFixture = async (page: Page, htmlPath: string, fixture: SearchFixture): Promise<string[]> => {
+  const mismatches: string[] = [];
+  await loadFixture(page, htmlPath);
+
+  const cards = await extractSearchCards(page);
+  diff(Array.from(cards.values()), fixture.expected, 'cards', mismatches);
+
+  return mismatches;
+};
+
+/**
+ * List fixture base names (without extension) in a fixture folder
+ */
+const listFixtures = (kind: 'posts' | 'search', filter?: string): string[] => {
+  const dir = path.join(FIXTURES_DIR, kind);
+  if (!fs.existsSync(dir)) {
+    return [];
+  }
+
+  return fs.readdirSync(dir)
+    .filter(file => file.endsWith('.html'))
+    .map(file => file.replace(/\.html$/, ''))
+    .filter(name => !filter || name.includes(filter))
+    .sort();
+};
+
+const main = async (): Promise<number> => {
+  const filter = process.argv[2];
+  const browser = await chromium.launch({ headless: true });
+  const context = await browser.newContext();
+
+  // Fixtures must never touch the network
+  await context.route('**/*', route => route.abort());
+
+  const page = await context.newPage();
+  let passed = 0;
+  let failed = 0;
+
+  try {
+    for (const kind of ['posts', 'search'] as const) {
+      for (const name of listFixtures(kind, filter)) {
+        const htmlPath = path.join(FIXTURES_DIR, kind, `${name}.html`);
+        const expectedPath = path.join(FIXTURES_DIR, kind, `${name}.expected.json`);
+
+        if (!fs.existsSync(expectedPath)) {
+          console.log(`⚠️  ${kind}/${name}: missing ${name}.expected.json, skipped`);
+          continue;
+        }
+
+        const fixture = JSON.parse(fs.readFileSync(expectedPath, 'utf-8'));
+        const mismatches = kind === 'posts'
+          ? await runPostFixture(page, htmlPath, fixture as PostFixture)
+          : await runSearchFixture(page, htmlPath, fixture as SearchFixture);
+
+        if (mismatches.length === 0) {
+          passed++;
+          console.log(`✅ ${kind}/${name}`);
+        } else {
+          failed++;
+          console.log(`❌ ${kind}/${name}`);
+          mismatches.forEach(m => console.log(`   ${m}`));
+        }
+      }
+    }
+  } finally {
+    await browser.close();
+  }
+
+  console.log(`\n📊 ${passed} passed, ${failed} failed`);
+  return failed > 0 ? 1 : 0;
+};
+
+main()
+  .then(code => process.exit(code))
+  .catch(error => {
+    console.error('\n❌ Fixture run failed:', error);
+    process.exit(1);
+  });
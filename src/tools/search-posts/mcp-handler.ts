@@ -5,15 +5,111 @@
 
 import path from 'path';
 import os from 'os';
-import { searchLinkedInPosts } from './core/search.js';
-import { saveSearchResourceToDb } from '../../utils/resource-storage.js';
-import type { SearchPostsParams, PostResult } from './utils/types.js';
+import { searchLinkedInPosts, searchLinkedInPostsBatch, createSearchStats } from './core/search.js';
+import { scrapePostUrls, MAX_SCRAPE_URLS } from './scrape-post.js';
+import { saveSearchResourceToDb, saveSearchRunToDb, type DbSaveResult } from '../../utils/resource-storage.js';
+import { ensureResourceDirectories } from '../../utils/paths.js';
+import type { ProgressNotifier } from '../../utils/mcp-progress.js';
+import { getExistingPostLinks } from '../../db/operations.js';
+import {
+  resolveSearchFacets,
+  DATE_POSTED_VALUES,
+  SORT_BY_VALUES,
+  CONTENT_TYPE_VALUES
+} from './utils/url-builder.js';
+import { compileStructuredQuery } from './utils/query-builder.js';
+import { PageBudgetError, LinkedInBlockedError } from './utils/errors.js';
+import { getStrategies, mergeSelectorUsage } from './utils/selector-registry.js';
+import type {
+  SearchPostsParams,
+  ScrapePostParams,
+  SearchQueryParams,
+  BatchSearchQuery,
+  BatchQueryResult,
+  PostResult,
+  SearchFacets,
+  SearchProgress,
+  SearchResponse,
+  SearchStats,
+  SelectorUsage,
+  ScrollStopReason,
+  PostFailure
+} from './utils/types.js';
+
+// Most queries a single search_posts call may batch
+const MAX_BATCH_QUERIES = 20;
+
+// Allowed post_timeout_seconds and max_retries (same bounds as the tool schemas)
+const MIN_POST_TIMEOUT_SECONDS = 5;
+const MAX_POST_TIMEOUT_SECONDS = 180;
+const MAX_POST_RETRIES = 5;
+
+// Share of a query's progress covered by each phase, as [start, end] (scrolls and posts fill the range)
+const PHASE_PROGRESS: Record<'loading' | 'scrolling' | 'urns-found' | 'extracting', [number, number]> = {
+  loading: [0.01, 0.01],
+  scrolling: [0.02, 0.3],
+  'urns-found': [0.32, 0.32],
+  extracting: [0.35, 1]
+};
+
+/**
+ * Build search facets from MCP tool parameters
+ * Throws if an enum facet has an unsupported value
+ */
+export const buildFacetsFromParams = (params: SearchQueryParams): SearchFacets => {
+  if (params.date_posted !== undefined && !DATE_POSTED_VALUES.includes(params.date_posted)) {
+    throw new Error(`Invalid date_posted value: ${params.date_posted}. Use one of: ${DATE_POSTED_VALUES.join(', ')}`);
+  }
+  
+  if (params.sort_by !== undefined && !SORT_BY_VALUES.includes(params.sort_by)) {
+    throw new Error(`Invalid sort_by value: ${params.sort_by}. Use one of: ${SORT_BY_VALUES.join(', ')}`);
+  }
+  
+  if (params.content_type !== undefined && !CONTENT_TYPE_VALUES.includes(params.content_type)) {
+    throw new Error(`Invalid content_type value: ${params.content_type}. Use one of: ${CONTENT_TYPE_VALUES.join(', ')}`);
+  }
+  
+  return resolveSearchFacets({
+    datePosted: params.date_posted,
+    sortBy: params.sort_by,
+    contentType: params.content_type,
+    fromMember: params.from_member,
+    authorCompany: params.author_company,
+    authorIndustry: params.author_industry,
+    authorJobTitle: params.author_job_title
+  });
+};
+
+/**
+ * Format facets as a single human-readable line
+ */
+export const formatFacets = (facets: SearchFacets): string => {
+  const parts: string[] = [];
+  if (facets.datePosted) parts.push(`date posted: ${facets.datePosted}`);
+  if (facets.sortBy) parts.push(`sort: ${facets.sortBy}`);
+  if (facets.contentType) parts.push(`content type: ${facets.contentType}`);
+  if (facets.fromMember) parts.push(`from member: ${facets.fromMember.join(', ')}`);
+  if (facets.authorCompany) parts.push(`author company: ${facets.authorCompany.join(', ')}`);
+  if (facets.authorIndustry) parts.push(`author industry: ${facets.authorIndustry.join(', ')}`);
+  if (facets.authorJobTitle) parts.push(`author job title: ${facets.authorJobTitle}`);
+  return parts.join(' | ');
+};
+
+/**
+ * Look up which post links are already saved in the database
+ */
+const findKnownPostLinks = async (links: string[]): Promise<Set<string>> => {
+  // Ensure resource directories exist before database creation
+  ensureResourceDirectories();
+  return getExistingPostLinks(links);
+};
 
 /**
  * Format post results for MCP response
  */
-const formatPostsResponse = (results: PostResult[], keywords: string): string => {
-  let responseText = `Found ${results.length} LinkedIn posts for "${keywords}":\n\n`;
+const formatPostsResponse = (results: PostResult[], keywords: string, facets: SearchFacets): string => {
+  let responseText = `Found ${results.length} LinkedIn posts for "${keywords}":\n`;
+  responseText += `Facets: ${formatFacets(facets)}\n\n`;
   
   results.forEach((post, index) => {
     const preview = post.description.length > 200 
@@ -27,14 +123,168 @@ const formatPostsResponse = (results: PostResult[], keywords: string): string =>
   return responseText;
 };
 
+/**
+ * Human-readable descriptions of scroll stop reasons
+ */
+const STOP_REASON_LABELS: Record<ScrollStopReason, string> = {
+  'pagination-complete': 'scrolled all requested pages',
+  'target-reached': 'target count reached',
+  'no-new-results': 'no new posts appeared (end of results)',
+  'max-scrolls': 'max scroll limit hit before reaching target',
+  'cancelled': 'search cancelled'
+};
+
+/**
+ * Format scrolling statistics
+ */
+const formatScrollInfo = (stats: SearchStats, targetCount?: number): string => {
+  const target = targetCount ? ` (target: ${targetCount})` : '';
+  return `\n\n📜 Scrolling: ${stats.scrolls} scrolls, ${stats.urnsFound} unique posts${target}\n` +
+         `   Stopped: ${STOP_REASON_LABELS[stats.stopReason]}`;
+};
+
+/**
+ * Format new vs already-known breakdown
+ */
+const formatKnownInfo = (stats: SearchStats, refreshExisting: boolean): string => {
+  if (refreshExisting) {
+    return `\n\n🆕 Known posts: re-scraped (refresh_existing enabled)`;
+  }
+  
+  const newCount = stats.urnsFound - stats.skippedKnown;
+  return `\n\n🆕 New: ${newCount} | Skipped as already known: ${stats.skippedKnown} (not visited)`;
+};
+
+/**
+ * Format extraction statistics
+ */
+const formatExtractionInfo = (stats: SearchStats, commentsLimit: number, screenshots: boolean): string => {
+  if (stats.extractionMode !== 'fast') {
+    return `\n\n⚙️ Extraction: full (${stats.pagesOpened} post pages opened)`;
+  }
+  
+  if (commentsLimit > 0 || screenshots) {
+    const capture = commentsLimit > 0 ? 'comment capture' : 'screenshot capture';
+    return `\n\n⚙️ Extraction: fast, but cards were skipped (${capture} opens every post page, ${stats.pagesOpened} opened)`;
+  }
+  
+  return `\n\n⚙️ Extraction: fast\n` +
+         `   ${stats.extractedFromCards} posts read from search result cards\n` +
+         `   ${stats.fallbackCount} posts needed the post page fallback`;
+};
+
+/**
+ * Format the posts left out because the page-load budget ran out (silent when none were)
+ */
+const formatBudgetInfo = (stats: SearchStats): string => {
+  if (stats.skippedBudget === 0) {
+    return '';
+  }
+  return `\n\n⛽ Page-load budget reached: ${stats.skippedBudget} posts not extracted (see the pacing tool)`;
+};
+
+/**
+ * Format a search (or a scrape, with its own `action` and prefix) that failed; one refused by
+ * the page-load budget says when it can run again, one stopped by a block page says what to do about it
+ */
+const formatSearchError = (
+  error: unknown,
+  action: string = 'Search',
+  failurePrefix: string = 'Error searching LinkedIn posts'
+): string => {
+  if (error instanceof LinkedInBlockedError) {
+    return `⛔ ${action} stopped, LinkedIn showed a ${error.kind} page (${error.url}).\n${error.message}` +
+      (error.invalidatesAuth ? '\nThe saved session has been marked invalid until you log in again.' : '');
+  }
+  if (error instanceof PageBudgetError) {
+    return `⏸️ ${action} not started: ${error.message} Check or change the budget with the pacing tool.`;
+  }
+  return `${failurePrefix}: ${error instanceof Error ? error.message : 'Unknown error occurred'}`;
+};
+
+/**
+ * Format selector health: fields where the primary strategy stopped matching
+ * Silent when every field matched with its primary strategy
+ */
+const formatSelectorHealth = (usage: SelectorUsage): string => {
+  const degraded: string[] = [];
+  
+  for (const [field, counts] of Object.entries(usage)) {
+    let primary: string | undefined;
+    try {
+      primary = getStrategies(field)[0]?.name;
+    } catch (_) {
+      // Field removed from the registry since the run started
+    }
+    
+    const fallbacks = Object.entries(counts).filter(([strategy]) => strategy !== primary);
+    if (fallbacks.length === 0) continue;
+    
+    const total = Object.values(counts).reduce((sum, count) => sum + count, 0);
+    const missed = fallbacks.reduce((sum, [, count]) => sum + count, 0);
+    const breakdown = fallbacks.map(([strategy, count]) => `${strategy}: ${count}`).join(', ');
+    degraded.push(`   - ${field}: primary "${primary}" missed ${missed}/${total} (${breakdown})`);
+  }
+  
+  if (degraded.length === 0) {
+    return '';
+  }
+  
+  return `\n\n🧩 Selector fallbacks used (LinkedIn markup may have changed):\n` + degraded.join('\n');
+};
+
+/**
+ * Format comment capture summary (only when comments were requested)
+ */
+const formatCommentsInfo = (results: PostResult[], commentsLimit: number): string => {
+  if (commentsLimit === 0) {
+    return '';
+  }
+  
+  const captured = results.reduce((sum, post) => sum + (post.comments?.length ?? 0), 0);
+  const withComments = results.filter(post => (post.comments?.length ?? 0) > 0).length;
+  return `\n\n💬 Comments: ${captured} captured across ${withComments} posts (up to ${commentsLimit} per post)\n` +
+         `   Read them with manage_posts (action: read, include_comments: true)`;
+};
+
+/**
+ * Format screenshot capture summary (only when screenshots were requested)
+ */
+const formatScreenshotsInfo = (results: PostResult[], screenshots: boolean): string => {
+  if (!screenshots) {
+    return '';
+  }
+  
+  const captured = results.filter(post => post.screenshot).length;
+  return `\n\n📸 Screenshots: ${captured} of ${results.length} posts captured (shown in the viewer)`;
+};
+
+/**
+ * Format failed posts summary (failed posts are never saved)
+ */
+const formatFailuresInfo = (failures: PostFailure[]): string => {
+  if (failures.length === 0) {
+    return '';
+  }
+  
+  const byReason = new Map<string, number>();
+  failures.forEach(f => byReason.set(f.reason, (byReason.get(f.reason) ?? 0) + 1));
+  const breakdown = Array.from(byReason.entries())
+    .map(([reason, count]) => `${reason}: ${count}`)
+    .join(', ');
+  
+  let text = `\n\n❌ ${failures.length} ${failures.length === 1 ? 'post' : 'posts'} failed and were not saved (${breakdown})\n`;
+  failures.forEach(f => {
+    text += `   - ${f.link} [${f.reason}, ${f.attempts} ${f.attempts === 1 ? 'attempt' : 'attempts'}]\n`;
+  });
+  
+  return text.trimEnd();
+};
+
 /**
  * Format database save results
  */
-const formatDatabaseInfo = (saveResult: {
-  totalPosts: number;
-  newPostsAdded: number;
-  duplicatesSkipped: number;
-}): string => {
+const formatDatabaseInfo = (saveResult: DbSaveResult): string => {
   const dbPath = path.join(
     process.env.APPDATA || os.homedir(),
     'linkedin-mcp',
@@ -42,62 +292,555 @@ const formatDatabaseInfo = (saveResult: {
     'linkedin.db'
   );
   
-  const statsInfo = saveResult.duplicatesSkipped > 0
+  let statsInfo = saveResult.duplicatesSkipped > 0
     ? `${saveResult.newPostsAdded} new posts added, ${saveResult.duplicatesSkipped} duplicates skipped`
     : `${saveResult.newPostsAdded} new posts added`;
   
+  if (saveResult.existingRefreshed > 0) {
+    statsInfo += `, ${saveResult.existingRefreshed} existing posts refreshed`;
+  }
+  
   return `\n\n💾 Results saved to database\n` +
          `   ${statsInfo}\n` +
          `   Total posts in database: ${saveResult.totalPosts}\n` +
          `   Database: ${dbPath}`;
 };
 
+/**
+ * Describe what happened to the posts of a cancelled search (response line and the run's error)
+ */
+const formatCancelledInfo = (postCount: number, kept: boolean): string => {
+  return kept
+    ? `Cancelled: kept the ${postCount} posts extracted before cancelling`
+    : `Cancelled: discarded the ${postCount} posts extracted before cancelling`;
+};
+
+/**
+ * Record a search run (best effort: a failure is reported, never thrown)
+ * Returns a short line for the response
+ */
+const recordSearchRun = async (
+  keywords: string,
+  facets: SearchFacets | undefined,
+  response: SearchResponse,
+  saveResult: DbSaveResult | null,
+  error?: string
+): Promise<string> => {
+  try {
+    const runId = await saveSearchRunToDb(keywords, facets, response, saveResult, error);
+    return `🗂️ Search run #${runId} recorded (see list_search_runs)`;
+  } catch (recordError) {
+    return `⚠️ Failed to record search run: ${recordError instanceof Error ? recordError.message : String(recordError)}`;
+  }
+};
+
+/**
+ * Turn search progress events into MCP progress notifications, out of 100
+ * Launching is 1 and saving 95; each query of a batch (or feed of a watch list check) gets an
+ * equal share of the range in between
+ */
+export const toProgressListener = (notify: ProgressNotifier | undefined): ((event: SearchProgress) => void) | undefined => {
+  if (!notify) {
+    return undefined;
+  }
+  
+  return event => {
+    if (event.phase === 'launching' || event.phase === 'saving') {
+      notify(event.phase === 'launching' ? 1 : 95, 100, event.message);
+      return;
+    }
+    
+    const [start, end] = PHASE_PROGRESS[event.phase];
+    const fraction = event.total ? (event.current ?? 0) / event.total : 0;
+    const queryProgress = start + (end - start) * fraction;
+    
+    const queryIndex = event.queryIndex ?? 0;
+    const queryCount = event.queryCount ?? 1;
+    const progress = 2 + 90 * (queryIndex + queryProgress) / queryCount;
+    const prefix = event.queryCount ? `[${queryIndex + 1}/${queryCount}] ` : '';
+    
+    notify(Math.round(progress * 10) / 10, 100, prefix + event.message);
+  };
+};
+
+/**
+ * Check max_scrolls and stall_scrolls, for single and batch searches
+ * Returns why a value is invalid, or null if both are valid
+ */
+const checkScrollLimits = ({ max_scrolls, stall_scrolls }: SearchPostsParams): string | null => {
+  for (const [name, value] of [['max_scrolls', max_scrolls], ['stall_scrolls', stall_scrolls]] as const) {
+    if (value !== undefined && (!Number.isInteger(value) || value < 1)) {
+      return `Invalid ${name}: ${value}. Use a positive integer.`;
+    }
+  }
+  return null;
+};
+
+/**
+ * Check post_timeout_seconds and max_retries, for searches and scrapes
+ * Returns why a value is invalid, or null if both are valid
+ */
+const checkPostLimits = ({ post_timeout_seconds, max_retries }: Pick<SearchPostsParams, 'post_timeout_seconds' | 'max_retries'>): string | null => {
+  if (post_timeout_seconds !== undefined && (
+    !Number.isFinite(post_timeout_seconds) ||
+    post_timeout_seconds < MIN_POST_TIMEOUT_SECONDS ||
+    post_timeout_seconds > MAX_POST_TIMEOUT_SECONDS
+  )) {
+    return `Invalid post_timeout_seconds: ${post_timeout_seconds}. Use a number from ${MIN_POST_TIMEOUT_SECONDS} to ${MAX_POST_TIMEOUT_SECONDS}.`;
+  }
+  if (max_retries !== undefined && (!Number.isInteger(max_retries) || max_retries < 0 || max_retries > MAX_POST_RETRIES)) {
+    return `Invalid max_retries: ${max_retries}. Use a whole number from 0 to ${MAX_POST_RETRIES}.`;
+  }
+  return null;
+};
+
+/**
+ * Resolve one entry of `queries` into a batch query
+ * The top-level pagination, target_count and facets are defaults for entries that don't set their own
+ * @throws Error naming the entry when it is invalid
+ */
+const resolveBatchQuery = (entry: SearchQueryParams, defaults: SearchPostsParams, index: number): BatchSearchQuery => {
+  const label = `queries[${index}]`;
+  
+  if (entry.query && entry.keywords?.trim()) {
+    throw new Error(`${label}: provide either keywords or query, not both`);
+  }
+  if (!entry.query && !entry.keywords?.trim()) {
+    throw new Error(`${label}: keywords or query is required`);
+  }
+  
+  const targetCount = entry.target_count ?? defaults.target_count;
+  if (targetCount !== undefined && (!Number.isInteger(targetCount) || targetCount < 1)) {
+    throw new Error(`${label}: invalid target_count ${targetCount}, use a positive integer`);
+  }
+  
+  try {
+    return {
+      keywords: entry.query ? compileStructuredQuery(entry.query) : entry.keywords!.trim(),
+      pagination: entry.pagination ?? defaults.pagination ?? 3,
+      targetCount,
+      facets: buildFacetsFromParams({
+        date_posted: entry.date_posted ?? defaults.date_posted,
+        sort_by: entry.sort_by ?? defaults.sort_by,
+        content_type: entry.content_type ?? defaults.content_type,
+        from_member: entry.from_member ?? defaults.from_member,
+        author_company: entry.author_company ?? defaults.author_company,
+        author_industry: entry.author_industry ?? defaults.author_industry,
+        author_job_title: entry.author_job_title ?? defaults.author_job_title
+      })
+    };
+  } catch (error) {
+    throw new Error(`${label}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+};
+
+/**
+ * Add up the statistics of all queries of a batch (stop reason is per query, so it's left as is)
+ */
+const mergeSearchStats = (results: BatchQueryResult[], extractionMode: SearchStats['extractionMode']): SearchStats => {
+  const merged = createSearchStats(extractionMode);
+  
+  for (const { stats } of results) {
+    merged.urnsFound += stats.urnsFound;
+    merged.extractedFromCards += stats.extractedFromCards;
+    merged.fallbackCount += stats.fallbackCount;
+    merged.skippedKnown += stats.skippedKnown;
+    merged.skippedDuplicate += stats.skippedDuplicate;
+    merged.pagesOpened += stats.pagesOpened;
+    merged.skippedBudget += stats.skippedBudget;
+    merged.scrolls += stats.scrolls;
+    mergeSelectorUsage(merged.selectorUsage, stats.selectorUsage);
+  }
+  
+  return merged;
+};
+
+/**
+ * Format one query of a batch: its posts plus a short scroll/dedupe/save line
+ */
+const formatBatchQueryInfo = (
+  result: BatchQueryResult,
+  index: number,
+  total: number,
+  saveInfo: string
+): string => {
+  const { query, posts, failures, stats } = result;
+  let text = `\n━━ Query ${index + 1}/${total} ━━\n`;
+  
+  if (result.error) {
+    return text + `⚠️ Query failed: "${query.keywords}" - ${result.error}\n${saveInfo}`;
+  }
+  
+  text += posts.length > 0
+    ? formatPostsResponse(posts, query.keywords, query.facets ?? {})
+    : `No new posts for "${query.keywords}" (${formatFacets(query.facets ?? {})})\n\n`;
+  
+  const target = query.targetCount ? `, target: ${query.targetCount}` : '';
+  text += `📜 ${stats.scrolls} scrolls, ${stats.urnsFound} unique posts${target} (${STOP_REASON_LABELS[stats.stopReason]})\n`;
+  text += `🆕 New: ${posts.length} | Already known: ${stats.skippedKnown} | Found by an earlier query: ${stats.skippedDuplicate}`;
+  if (failures.length > 0) {
+    text += ` | Failed: ${failures.length}`;
+  }
+  if (stats.skippedBudget > 0) {
+    text += ` | Over budget: ${stats.skippedBudget}`;
+  }
+  text += `\n${saveInfo}`;
+  
+  return text;
+};
+
+/**
+ * Handle search_posts with `queries`: run every query in one browser session, save each query's
+ * posts under its own keywords/facets, and report per query plus an overall summary
+ */
+const handleBatchSearch = async (
+  params: SearchPostsParams,
+  onProgress?: (event: SearchProgress) => void,
+  signal?: AbortSignal
+) => {
+  const {
+    queries: entries = [],
+    headless = false,
+    extraction_mode = 'full',
+    max_scrolls,
+    stall_scrolls,
+    refresh_existing = false,
+    post_timeout_seconds,
+    max_retries,
+    comments_limit = 0,
+    screenshots = false,
+    save_partial = true
+  } = params;
+  
+  if (params.query || params.keywords?.trim()) {
+    return {
+      content: [{
+        type: "text",
+        text: "Provide either queries or keywords/query, not both."
+      }]
+    };
+  }
+  
+  if (!Array.isArray(entries) || entries.length === 0 || entries.length > MAX_BATCH_QUERIES) {
+    return {
+      content: [{
+        type: "text",
+        text: `queries must list between 1 and ${MAX_BATCH_QUERIES} searches.`
+      }]
+    };
+  }
+  
+  const invalidLimit = checkScrollLimits(params) ?? checkPostLimits(params);
+  if (invalidLimit) {
+    return {
+      content: [{
+        type: "text",
+        text: invalidLimit
+      }]
+    };
+  }
+  
+  let queries: BatchSearchQuery[];
+  try {
+    queries = entries.map((entry, index) => resolveBatchQuery(entry, params, index));
+  } catch (error) {
+    return {
+      content: [{
+        type: "text",
+        text: `Invalid queries: ${error instanceof Error ? error.message : 'Unknown error occurred'}`
+      }]
+    };
+  }
+  
+  try {
+    const results = await searchLinkedInPostsBatch(queries, {
+      headless,
+      extractionMode: extraction_mode,
+      maxScrolls: max_scrolls,
+      stallScrolls: stall_scrolls,
+      findKnownLinks: refresh_existing ? undefined : findKnownPostLinks,
+      postTimeoutMs: post_timeout_seconds !== undefined ? post_timeout_seconds * 1000 : undefined,
+      maxRetries: max_retries,
+      commentsLimit: comments_limit,
+      screenshots,
+      onProgress,
+      signal
+    });
+    
+    // A cancelled batch is saved as far as it got, or not at all
+    const cancelled = signal?.aborted === true || results.some(result => result.stats.cancelled);
+    // A block page stops the batch (even at its last query); the queries before it are still saved
+    const blocked = results.find(result => result.blocked)?.blocked;
+    const notRun = queries.length - results.length;
+    const discard = cancelled && !save_partial;
+    
+    onProgress?.({ phase: 'saving', message: 'Saving results to the database' });
+    
+    // Save each query's posts under its own keywords and facets
+    const totals: DbSaveResult = { totalPosts: 0, newPostsAdded: 0, duplicatesSkipped: 0, existingRefreshed: 0 };
+    let savedAny = false;
+    let queriesText = '';
+    for (const [index, result] of results.entries()) {
+      let saveInfo = '';
+      let saveResult: DbSaveResult | null = null;
+      if (result.posts.length > 0 && !discard) {
+        try {
+          saveResult = await saveSearchResourceToDb(result.posts, result.query.keywords, result.query.facets, refresh_existing);
+          totals.totalPosts = saveResult.totalPosts;
+          totals.newPostsAdded += saveResult.newPostsAdded;
+          totals.duplicatesSkipped += saveResult.duplicatesSkipped;
+          totals.existingRefreshed += saveResult.existingRefreshed;
+          savedAny = true;
+          saveInfo = `💾 ${saveResult.newPostsAdded} new posts added` +
+            (saveResult.existingRefreshed > 0 ? `, ${saveResult.existingRefreshed} existing posts refreshed` : '') + '\n';
+        } catch (error) {
+          const errorMsg = error instanceof Error ? error.message : String(error);
+          saveInfo = `⚠️ Failed to save to database: ${errorMsg}\n`;
+        }
+      }
+      // Recorded after saving, so the run links to the posts it just added
+      const runError = discard
+        ? formatCancelledInfo(result.posts.length, false)
+        : result.stats.cancelled ? formatCancelledInfo(result.posts.length, true) : result.error;
+      saveInfo += await recordSearchRun(result.query.keywords, result.query.facets, result, saveResult, runError) + '\n';
+      queriesText += formatBatchQueryInfo(result, index, results.length, saveInfo);
+    }
+    
+    const stats = mergeSearchStats(results, extraction_mode);
+    const posts = results.flatMap(result => result.posts);
+    const failures = results.flatMap(result => result.failures);
+    const failedQueries = results.filter(result => result.error).length;
+    
+    const summary = `\n\n📊 Overall: ${posts.length} posts scraped from ${results.length} queries in one browser session\n` +
+      `   ${stats.urnsFound} results, ${stats.skippedDuplicate} found by more than one query (scraped once), ` +
+      `${stats.skippedKnown} already known` +
+      (failedQueries > 0 ? `\n   ⚠️ ${failedQueries} ${failedQueries === 1 ? 'query' : 'queries'} failed` : '') +
+      (blocked
+        ? `\n   ⛔ Stopped at query ${results.length}: LinkedIn showed a block page (${blocked})` +
+          (notRun > 0 ? `, ${notRun} queries not run` : '') + ' (see its error)'
+        : '') +
+      (cancelled
+        ? `\n   ⏹️ ${formatCancelledInfo(posts.length, !discard)} (${results.length} of ${queries.length} queries started)`
+        : '');
+    
+    const responseText = `Batch search: ${results.length} queries\n` +
+      queriesText +
+      summary +
+      formatExtractionInfo(stats, comments_limit, screenshots) +
+      formatBudgetInfo(stats) +
+      formatCommentsInfo(posts, comments_limit) +
+      formatScreenshotsInfo(posts, screenshots) +
+      formatSelectorHealth(stats.selectorUsage) +
+      formatFailuresInfo(failures) +
+      (savedAny ? formatDatabaseInfo(totals) : '');
+    
+    return {
+      content: [{
+        type: "text",
+        text: responseText
+      }]
+    };
+    
+  } catch (error) {
+    return {
+      content: [{
+        type: "text",
+        text: formatSearchError(error)
+      }]
+    };
+  }
+};
+
 /**
  * Handle LinkedIn search posts MCP tool
  * This is the MCP-specific handler that:
  * 1. Calls the core search function
  * 2. Saves results to database
  * 3. Formats MCP response
+ * 
+ * @param notifyProgress - Sends MCP progress notifications, when the client asked for them
+ * @param signal - Aborted when the client cancels the request; the search stops and
+ *   (unless save_partial is false) the posts extracted so far are saved
  */
-export const handleLinkedInSearchPosts = async (params: SearchPostsParams) => {
-  const { keywords, pagination = 3, headless = false } = params;
+export const handleLinkedInSearchPosts = async (
+  params: SearchPostsParams,
+  notifyProgress?: ProgressNotifier,
+  signal?: AbortSignal
+) => {
+  const {
+    pagination = 3,
+    headless = false,
+    extraction_mode = 'full',
+    target_count,
+    max_scrolls,
+    stall_scrolls,
+    refresh_existing = false,
+    post_timeout_seconds,
+    max_retries,
+    comments_limit = 0,
+    screenshots = false,
+    save_partial = true
+  } = params;
   
   // Validate input
-  if (!keywords?.trim()) {
+  if (params.query && params.keywords?.trim()) {
+    return {
+      content: [{
+        type: "text",
+        text: "Provide either keywords or query, not both."
+      }]
+    };
+  }
+  
+  if (!['full', 'fast'].includes(extraction_mode)) {
+    return {
+      content: [{
+        type: "text",
+        text: `Invalid extraction_mode: ${extraction_mode}. Use 'full' or 'fast'.`
+      }]
+    };
+  }
+  
+  if (target_count !== undefined && (!Number.isInteger(target_count) || target_count < 1)) {
+    return {
+      content: [{
+        type: "text",
+        text: `Invalid target_count: ${target_count}. Use a positive integer.`
+      }]
+    };
+  }
+  
+  const invalidLimit = checkScrollLimits(params) ?? checkPostLimits(params);
+  if (invalidLimit) {
+    return {
+      content: [{
+        type: "text",
+        text: invalidLimit
+      }]
+    };
+  }
+  
+  if (!Number.isInteger(comments_limit) || comments_limit < 0) {
+    return {
+      content: [{
+        type: "text",
+        text: `Invalid comments_limit: ${comments_limit}. Use 0 (off) or a positive integer.`
+      }]
+    };
+  }
+  
+  const onProgress = toProgressListener(notifyProgress);
+  
+  if (params.queries) {
+    return handleBatchSearch(params, onProgress, signal);
+  }
+  
+  if (!params.query && !params.keywords?.trim()) {
     return {
       content: [{
         type: "text",
-        text: "Keywords parameter is required for searching LinkedIn posts."
+        text: "Keywords or query parameter is required for searching LinkedIn posts."
       }]
     };
   }
   
+  // Compile structured query into LinkedIn boolean syntax
+  let keywords: string;
   try {
+    keywords = params.query ? compileStructuredQuery(params.query) : params.keywords!.trim();
+  } catch (error) {
+    return {
+      content: [{
+        type: "text",
+        text: `Invalid query: ${error instanceof Error ? error.message : 'Unknown error occurred'}`
+      }]
+    };
+  }
+  
+  const compiledQueryInfo = params.query ? `Compiled query: ${keywords}\n` : '';
+  
+  try {
+    const facets = buildFacetsFromParams(params);
+    
     // Call core search function (no database operations)
-    const results = await searchLinkedInPosts(keywords, pagination, { headless });
+    const response = await searchLinkedInPosts(keywords, pagination, {
+      headless,
+      facets,
+      extractionMode: extraction_mode,
+      targetCount: target_count,
+      maxScrolls: max_scrolls,
+      stallScrolls: stall_scrolls,
+      findKnownLinks: refresh_existing ? undefined : findKnownPostLinks,
+      postTimeoutMs: post_timeout_seconds !== undefined ? post_timeout_seconds * 1000 : undefined,
+      maxRetries: max_retries,
+      commentsLimit: comments_limit,
+      screenshots,
+      onProgress,
+      signal
+    });
+    const { posts: results, failures, stats } = response;
+    
+    // Cancelled: keep what was extracted unless asked not to
+    if (stats.cancelled && !save_partial) {
+      const cancelInfo = formatCancelledInfo(results.length, false);
+      const runInfo = await recordSearchRun(keywords, facets, response, null, cancelInfo);
+      return {
+        content: [{
+          type: "text",
+          text: `${compiledQueryInfo}⏹️ ${cancelInfo}` +
+            formatScrollInfo(stats, target_count) +
+            `\n\n${runInfo}`
+        }]
+      };
+    }
+    const cancelInfo = stats.cancelled ? formatCancelledInfo(results.length, true) : undefined;
+    const cancelledLine = cancelInfo ? `⏹️ ${cancelInfo}\n` : '';
     
     // Handle empty results
     if (results.length === 0) {
+      const runInfo = await recordSearchRun(keywords, facets, response, null, cancelInfo);
       return {
         content: [{
           type: "text",
-          text: `No LinkedIn posts found for keywords: "${keywords}"`
+          text: cancelledLine + (stats.skippedKnown > 0
+            ? `${compiledQueryInfo}No new LinkedIn posts for keywords: "${keywords}" (${formatFacets(facets)}) - all ${stats.skippedKnown} posts found are already in the database`
+            : `${compiledQueryInfo}No LinkedIn posts found for keywords: "${keywords}" (${formatFacets(facets)})`) +
+            formatScrollInfo(stats, target_count) +
+            formatBudgetInfo(stats) +
+            formatSelectorHealth(stats.selectorUsage) +
+            formatFailuresInfo(failures) +
+            `\n\n${runInfo}`
         }]
       };
     }
     
     // Save results to database
     let databaseInfo = '';
+    let saveResult: DbSaveResult | null = null;
     try {
-      const saveResult = await saveSearchResourceToDb(results, keywords);
+      onProgress?.({ phase: 'saving', message: `Saving ${results.length} posts to the database` });
+      saveResult = await saveSearchResourceToDb(results, keywords, facets, refresh_existing);
       databaseInfo = formatDatabaseInfo(saveResult);
     } catch (error) {
       const errorMsg = error instanceof Error ? error.message : String(error);
       databaseInfo = `\n\n⚠️ Failed to save to database: ${errorMsg}`;
     }
     
+    // Recorded after saving, so the run links to the posts it just added
+    databaseInfo += `\n\n${await recordSearchRun(keywords, facets, response, saveResult, cancelInfo)}`;
+    
     // Format and return MCP response
-    const responseText = formatPostsResponse(results, keywords) + databaseInfo;
+    const responseText = cancelledLine + compiledQueryInfo +
+      formatPostsResponse(results, keywords, facets) +
+      formatScrollInfo(stats, target_count) +
+      formatKnownInfo(stats, refresh_existing) +
+      formatExtractionInfo(stats, comments_limit, screenshots) +
+      formatBudgetInfo(stats) +
+      formatCommentsInfo(results, comments_limit) +
+      formatScreenshotsInfo(results, screenshots) +
+      formatSelectorHealth(stats.selectorUsage) +
+      formatFailuresInfo(failures) +
+      databaseInfo;
     
     return {
       content: [{
@@ -110,9 +853,133 @@ export const handleLinkedInSearchPosts = async (params: SearchPostsParams) => {
     return {
       content: [{
         type: "text",
-        text: `Error searching LinkedIn posts: ${error instanceof Error ? error.message : 'Unknown error occurred'}`
+        text: formatSearchError(error)
       }]
     };
   }
 };
 
+/**
+ * Handle LinkedIn scrape post MCP tool
+ * Extracts posts given by link (not found by a search) and saves them with the "manual" source
+ * 
+ * @param notifyProgress - Sends MCP progress notifications, when the client asked for them
+ * @param signal - Aborted when the client cancels the request; no new post page is opened
+ *   and the posts extracted so far are saved
+ */
+export const handleLinkedInScrapePost = async (
+  params: ScrapePostParams,
+  notifyProgress?: ProgressNotifier,
+  signal?: AbortSignal
+) => {
+  const {
+    urls,
+    headless = false,
+    refresh_existing = false,
+    post_timeout_seconds,
+    max_retries,
+    comments_limit = 0,
+    screenshots = false
+  } = params;
+  
+  if (!Array.isArray(urls) || urls.length === 0) {
+    return {
+      content: [{
+        type: "text",
+        text: "urls is required: one or more LinkedIn post links."
+      }]
+    };
+  }
+  
+  if (urls.length > MAX_SCRAPE_URLS) {
+    return {
+      content: [{
+        type: "text",
+        text: `Too many urls: ${urls.length}. Scrape at most ${MAX_SCRAPE_URLS} posts per call.`
+      }]
+    };
+  }
+  
+  if (!Number.isInteger(comments_limit) || comments_limit < 0) {
+    return {
+      content: [{
+        type: "text",
+        text: `Invalid comments_limit: ${comments_limit}. Use 0 (off) or a positive integer.`
+      }]
+    };
+  }
+  
+  const invalidPostLimit = checkPostLimits(params);
+  if (invalidPostLimit) {
+    return {
+      content: [{
+        type: "text",
+        text: invalidPostLimit
+      }]
+    };
+  }
+  
+  try {
+    const { invalidUrls, knownLinks, response, saveResult, saveError } = await scrapePostUrls(urls, {
+      headless,
+      refreshExisting: refresh_existing,
+      postTimeoutMs: post_timeout_seconds !== undefined ? post_timeout_seconds * 1000 : undefined,
+      maxRetries: max_retries,
+      commentsLimit: comments_limit,
+      screenshots,
+      onProgress: toProgressListener(notifyProgress),
+      signal
+    });
+    
+    const invalidInfo = invalidUrls.length > 0
+      ? `⚠️ Not LinkedIn post links, skipped:\n` + invalidUrls.map(url => `   - ${url}`).join('\n') + '\n\n'
+      : '';
+    const knownInfo = knownLinks.length > 0
+      ? `🆕 Already in the database, skipped (use refresh_existing to re-scrape):\n` + knownLinks.map(link => `   - ${link}`).join('\n') + '\n\n'
+      : '';
+    
+    if (!response) {
+      return {
+        content: [{
+          type: "text",
+          text: (invalidInfo + knownInfo).trimEnd() || 'No posts to scrape.'
+        }]
+      };
+    }
+    
+    const { posts: results, failures, stats } = response;
+    let responseText = invalidInfo + knownInfo;
+    if (stats.cancelled) {
+      responseText += `⏹️ ${formatCancelledInfo(results.length, true)}\n`;
+    }
+    responseText += `Scraped ${results.length} of ${stats.urnsFound} LinkedIn posts:\n\n`;
+    results.forEach((post, index) => {
+      const preview = post.description.length > 200
+        ? post.description.substring(0, 200) + '...'
+        : post.description;
+      responseText += `${index + 1}. ${post.link}\n`;
+      responseText += `   ${preview}\n\n`;
+    });
+    
+    return {
+      content: [{
+        type: "text",
+        text: responseText.trimEnd() +
+          formatBudgetInfo(stats) +
+          formatCommentsInfo(results, comments_limit) +
+          formatScreenshotsInfo(results, screenshots) +
+          formatSelectorHealth(stats.selectorUsage) +
+          formatFailuresInfo(failures) +
+          (saveResult ? formatDatabaseInfo(saveResult) : '') +
+          (saveError ? `\n\n⚠️ Failed to save to database: ${saveError}` : '')
+      }]
+    };
+  } catch (error) {
+    return {
+      content: [{
+        type: "text",
+        text: formatSearchError(error, 'Scrape', 'Error scraping LinkedIn posts')
+      }]
+    };
+  }
+};
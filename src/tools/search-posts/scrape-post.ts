@@ -0,0 +1,97 @@
+/**
+ * Scraping of posts given by link (scrape_post tool and the viewer's "Add post by URL" box)
+ * Extracts the posts and stores them with the "manual" source and no search keywords
+ */
+
+import { scrapeLinkedInPosts } from './core/search.js';
+import { parsePostUrn, buildPostUrl } from './utils/url-builder.js';
+import { saveSearchResourceToDb, type DbSaveResult } from '../../utils/resource-storage.js';
+import { ensureResourceDirectories } from '../../utils/paths.js';
+import { getExistingPostLinks } from '../../db/operations.js';
+import type { SearchOptions, SearchResponse } from './utils/types.js';
+
+// Stored in the posts' source column for posts added by link (their search keywords stay empty,
+// so keyword filters don't match them)
+export const MANUAL_POST_SOURCE = 'manual';
+
+// Most links a single scrape may take
+export const MAX_SCRAPE_URLS = 20;
+
+export interface ScrapePostsOptions extends Pick<SearchOptions,
+  'headless' | 'postTimeoutMs' | 'maxRetries' | 'commentsLimit' | 'screenshots' | 'onProgress' | 'signal'
+> {
+  refreshExisting?: boolean; // Re-scrape posts already in the database instead of skipping them
+}
+
+export interface ScrapePostsResult {
+  invalidUrls: string[];            // Inputs that aren't LinkedIn post links
+  knownLinks: string[];             // Posts already in the database, not scraped
+  response: SearchResponse | null;  // null when there was nothing left to scrape
+  saveResult: DbSaveResult | null;  // null when no post was extracted, or saving failed
+  saveError?: string;               // Set when the extracted posts couldn't be saved
+}
+
+/**
+ * Split links into post URNs (deduplicated, in order) and inputs that aren't post links
+ */
+export const parsePostUrls = (urls: string[]): { urns: string[]; invalidUrls: string[] } => {
+  const urns: string[] = [];
+  const invalidUrls: string[] = [];
+
+  for (const url of urls) {
+    const urn = parsePostUrn(url);
+    if (!urn) {
+      invalidUrls.push(url);
+    } else if (!urns.includes(urn)) {
+      urns.push(urn);
+    }
+  }
+
+  return { urns, invalidUrls };
+};
+
+/**
+ * Scrape posts by link and save them with the "manual" source
+ * Posts already in the database are skipped unless refreshExisting is set
+ * A failed save is reported in `saveError`; the extracted posts are still returned
+ * @throws Error if authentication is invalid
+ * @throws PageBudgetError if the page-load budget is used up
+ * @throws LinkedInBlockedError if LinkedIn shows a login wall, checkpoint, captcha or rate-limit page
+ */
+export const scrapePostUrls = async (
+  urls: string[],
+  options: ScrapePostsOptions = {}
+): Promise<ScrapePostsResult> => {
+  const { refreshExisting = false, ...scrapeOptions } = options;
+  const { urns, invalidUrls } = parsePostUrls(urls);
+
+  // Ensure resource directories exist before database creation
+  ensureResourceDirectories();
+
+  let urnsToScrape = urns;
+  let knownLinks: string[] = [];
+  if (!refreshExisting && urns.length > 0) {
+    const known = await getExistingPostLinks(urns.map(buildPostUrl));
+    knownLinks = Array.from(known);
+    urnsToScrape = urns.filter(urn => !known.has(buildPostUrl(urn)));
+  }
+
+  if (urnsToScrape.length === 0) {
+    return { invalidUrls, knownLinks, response: null, saveResult: null };
+  }
+
+  const response = await scrapeLinkedInPosts(urnsToScrape, scrapeOptions);
+
+  let saveResult: DbSaveResult | null = null;
+  let saveError: string | undefined;
+  if (response.posts.length > 0) {
+    options.onProgress?.({ phase: 'saving', message: `Saving ${response.posts.length} posts to the database` });
+    try {
+      saveResult = await saveSearchResourceToDb(response.posts, '', undefined, refreshExisting, MANUAL_POST_SOURCE);
+    } catch (error) {
+      saveError = error instanceof Error ? error.message : String(error);
+    }
+  }
+
+  return { invalidUrls, knownLinks, response, saveResult, saveError };
+};
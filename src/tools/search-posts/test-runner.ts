@@ -14,9 +14,12 @@ searchLinkedInPosts(
   2,
   { concurrency: 8 }
 )
-  .then(results => {
+  .then(({ posts: results, failures }) => {
     console.log('\n✅ Test completed!');
     console.log(`\n📊 Results: Found ${results.length} posts`);
+    if (failures.length > 0) {
+      console.log(`   ${failures.length} posts failed: ${failures.map(f => f.reason).join(', ')}`);
+    }
     
     // Show first few results
     results.slice(0, 3).forEach((post, index) => {
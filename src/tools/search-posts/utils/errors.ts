@@ -0,0 +1,70 @@
+/**
+ * Search posts error types
+ */
+
+import type { PostFailureReason, BlockedPageKind } from './types.js';
+import type { PageBudgetStatus } from '../../../utils/pacing.js';
+
+/**
+ * Error thrown when a single post can't be extracted
+ * Carries a typed reason so callers can decide whether to retry
+ */
+export class PostExtractionError extends Error {
+  readonly reason: PostFailureReason;
+  
+  constructor(reason: PostFailureReason, message: string) {
+    super(message);
+    this.name = 'PostExtractionError';
+    this.reason = reason;
+  }
+}
+
+// What the user has to do about each kind of block page
+const BLOCKED_PAGE_MESSAGES: Record<BlockedPageKind, string> = {
+  'login': 'LinkedIn redirected to the login page: the saved session has expired. Run the auth tool with action=\'authenticate\' to log in again.',
+  'checkpoint': 'LinkedIn asked for a security verification. Run the auth tool with action=\'authenticate\' and complete the check in the browser window.',
+  'captcha': 'LinkedIn showed a captcha. Run the auth tool with action=\'authenticate\' and solve it in the browser window.',
+  'rate-limit': 'LinkedIn is rate limiting this account (too many requests). Wait before searching again, and consider slowing down with search_pacing.'
+};
+
+/**
+ * Error thrown when LinkedIn answers with a login wall, checkpoint, captcha or rate-limit page
+ * The search stops; every kind but rate-limit means the stored session has to be renewed
+ */
+export class LinkedInBlockedError extends Error {
+  readonly kind: BlockedPageKind;
+  readonly url: string;
+  
+  constructor(kind: BlockedPageKind, url: string) {
+    super(BLOCKED_PAGE_MESSAGES[kind]);
+    this.name = 'LinkedInBlockedError';
+    this.kind = kind;
+    this.url = url;
+  }
+  
+  /**
+   * Whether the stored authentication should be marked invalid
+   */
+  get invalidatesAuth(): boolean {
+    return this.kind !== 'rate-limit';
+  }
+}
+
+/**
+ * Failure reasons worth retrying (the post may load fine on another attempt)
+ */
+export const RETRYABLE_FAILURE_REASONS: PostFailureReason[] = ['timeout', 'empty-content', 'unknown'];
+
+/**
+ * Error thrown when the page-load budget is used up before a search starts
+ */
+export class PageBudgetError extends Error {
+  readonly status: PageBudgetStatus;
+  
+  constructor(status: PageBudgetStatus) {
+    const next = status.nextAvailableAt ? ` Next page load allowed at ${status.nextAvailableAt}.` : '';
+    super(`LinkedIn page-load budget used up (${status.usedLastHour} in the last hour, ${status.usedLastDay} in the last 24 hours).${next}`);
+    this.name = 'PageBudgetError';
+    this.status = status;
+  }
+}
@@ -0,0 +1,100 @@
+/**
+ * Structured boolean query compiler
+ * Turns all_of/any_of/none_of/phrases lists into a valid LinkedIn search string
+ */
+
+import type { StructuredQuery } from './types.js';
+
+const RESERVED_WORDS = ['AND', 'OR', 'NOT'];
+
+/**
+ * Validate a single term and return it trimmed
+ */
+const normalizeTerm = (term: unknown, field: string): string => {
+  if (typeof term !== 'string') {
+    throw new Error(`${field} must only contain strings`);
+  }
+  
+  const trimmed = term.replace(/\s+/g, ' ').trim();
+  
+  if (trimmed.length === 0) {
+    throw new Error(`${field} contains an empty term`);
+  }
+  
+  if (/["()]/.test(trimmed)) {
+    throw new Error(`${field} term "${trimmed}" must not contain quotes or parentheses - they are added automatically`);
+  }
+  
+  return trimmed;
+};
+
+/**
+ * Quote a term when LinkedIn would otherwise split it or read it as an operator
+ */
+const formatTerm = (term: string, forceQuotes: boolean = false): string => {
+  const needsQuotes = forceQuotes || /\s/.test(term) || RESERVED_WORDS.includes(term.toUpperCase());
+  return needsQuotes ? `"${term}"` : term;
+};
+
+/**
+ * Read and validate one list of the structured query
+ */
+const readTerms = (query: StructuredQuery, field: keyof StructuredQuery): string[] => {
+  const value = query[field];
+  
+  if (value === undefined) {
+    return [];
+  }
+  
+  if (!Array.isArray(value)) {
+    throw new Error(`${field} must be an array of strings`);
+  }
+  
+  return value.map(term => normalizeTerm(term, field));
+};
+
+/**
+ * Compile a structured query into a LinkedIn boolean search string
+ * 
+ * Precedence follows LinkedIn: quoted phrases, then parentheses, then NOT, AND, OR.
+ * all_of and phrases are ANDed, any_of is grouped in parentheses, none_of terms are NOTed.
+ * 
+ * @example
+ * compileStructuredQuery({ all_of: ['python'], any_of: ['remote', 'hybrid'], none_of: ['senior'] })
+ * // => 'python AND (remote OR hybrid) NOT senior'
+ * 
+ * @throws Error if the query is empty or contains invalid terms
+ */
+export const compileStructuredQuery = (query: StructuredQuery): string => {
+  if (!query || typeof query !== 'object') {
+    throw new Error('query must be an object with all_of, any_of, none_of or phrases');
+  }
+  
+  const allOf = readTerms(query, 'all_of');
+  const anyOf = readTerms(query, 'any_of');
+  const noneOf = readTerms(query, 'none_of');
+  const phrases = readTerms(query, 'phrases');
+  
+  const required: string[] = [
+    ...phrases.map(term => formatTerm(term, true)),
+    ...allOf.map(term => formatTerm(term))
+  ];
+  
+  if (anyOf.length === 1) {
+    required.push(formatTerm(anyOf[0]));
+  } else if (anyOf.length > 1) {
+    required.push(`(${anyOf.map(term => formatTerm(term)).join(' OR ')})`);
+  }
+  
+  if (required.length === 0) {
+    throw new Error('query needs at least one term in all_of, any_of or phrases (none_of alone matches nothing)');
+  }
+  
+  let compiled = required.join(' AND ');
+  
+  for (const term of noneOf) {
+    compiled += ` NOT ${formatTerm(term)}`;
+  }
+  
+  return compiled;
+};
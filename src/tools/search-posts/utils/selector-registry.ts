@@ -0,0 +1,141 @@
+/**
+ * Versioned selector registry
+ * Bundled selectors/registry.json, with per-field overrides from the data directory
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { getSelectorOverridePath } from '../../../utils/paths.js';
+import type { SelectorRegistry, SelectorStrategy, SelectorMatches, SelectorUsage } from './types.js';
+
+const BUNDLED_REGISTRY_PATH = path.join(
+  path.dirname(fileURLToPath(import.meta.url)),
+  '..',
+  'selectors',
+  'registry.json'
+);
+
+let cachedRegistry: SelectorRegistry | null = null;
+
+/**
+ * Keep only well-formed strategy chains (non-empty arrays of { name, selector })
+ */
+const validFields = (fields: unknown): Record<string, SelectorStrategy[]> => {
+  const valid: Record<string, SelectorStrategy[]> = {};
+
+  if (!fields || typeof fields !== 'object') {
+    return valid;
+  }
+
+  for (const [field, strategies] of Object.entries(fields)) {
+    if (
+      Array.isArray(strategies) &&
+      strategies.length > 0 &&
+      strategies.every(s => s && typeof s.name === 'string' && typeof s.selector === 'string')
+    ) {
+      valid[field] = strategies as SelectorStrategy[];
+    }
+  }
+
+  return valid;
+};
+
+/**
+ * Load the bundled registry and apply the data directory override, if any
+ *
+ * The override replaces whole fields (its chain wins over the bundled one).
+ * An override with a lower version than the bundled registry is ignored, so
+ * selectors fixed in a release aren't shadowed by a stale local copy.
+ */
+const loadRegistry = (): SelectorRegistry => {
+  const bundled = JSON.parse(fs.readFileSync(BUNDLED_REGISTRY_PATH, 'utf-8')) as SelectorRegistry;
+  const registry: SelectorRegistry = {
+    version: bundled.version,
+    fields: validFields(bundled.fields)
+  };
+
+  const overridePath = getSelectorOverridePath();
+  if (!fs.existsSync(overridePath)) {
+    return registry;
+  }
+
+  try {
+    const override = JSON.parse(fs.readFileSync(overridePath, 'utf-8')) as Partial<SelectorRegistry>;
+    const overrideVersion = typeof override.version === 'number' ? override.version : 0;
+
+    if (overrideVersion < bundled.version) {
+      return registry;
+    }
+
+    return {
+      version: overrideVersion,
+      fields: { ...registry.fields, ...validFields(override.fields) }
+    };
+  } catch (error) {
+    // Invalid override file, fall back to bundled selectors
+    return registry;
+  }
+};
+
+/**
+ * Get the selector registry (loaded once, cached)
+ */
+export const getSelectorRegistry = (): SelectorRegistry => {
+  if (!cachedRegistry) {
+    cachedRegistry = loadRegistry();
+  }
+  return cachedRegistry;
+};
+
+/**
+ * Drop the cached registry so the next access re-reads the files
+ */
+export const reloadSelectorRegistry = (): SelectorRegistry => {
+  cachedRegistry = null;
+  return getSelectorRegistry();
+};
+
+/**
+ * Get the ordered fallback strategies for a field
+ * @throws Error if the field is not in the registry
+ */
+export const getStrategies = (field: string): SelectorStrategy[] => {
+  const strategies = getSelectorRegistry().fields[field];
+  if (!strategies) {
+    throw new Error(`Unknown selector field: ${field}`);
+  }
+  return strategies;
+};
+
+/**
+ * Get the strategies for several fields, keyed by field (for code running inside the page)
+ */
+export const getStrategiesFor = (fields: string[]): Record<string, SelectorStrategy[]> => {
+  return Object.fromEntries(fields.map(field => [field, getStrategies(field)]));
+};
+
+/**
+ * Add one set of matches to a usage tally
+ */
+export const tallySelectorMatches = (usage: SelectorUsage, matches: SelectorMatches | undefined): void => {
+  if (!matches) return;
+
+  for (const [field, strategy] of Object.entries(matches)) {
+    const key = strategy ?? 'none';
+    usage[field] = usage[field] ?? {};
+    usage[field][key] = (usage[field][key] ?? 0) + 1;
+  }
+};
+
+/**
+ * Add one usage tally to another (e.g. to report selector health across the queries of a batch)
+ */
+export const mergeSelectorUsage = (usage: SelectorUsage, other: SelectorUsage): void => {
+  for (const [field, counts] of Object.entries(other)) {
+    usage[field] = usage[field] ?? {};
+    for (const [strategy, count] of Object.entries(counts)) {
+      usage[field][strategy] = (usage[field][strategy] ?? 0) + count;
+    }
+  }
+};
@@ -2,10 +2,209 @@
  * Search posts types and interfaces
  */
 
-export interface SearchPostsParams {
-  keywords: string;
+/**
+ * LinkedIn "Date posted" facet values
+ */
+export type DatePostedFacet = 'past-24h' | 'past-week' | 'past-month' | 'any';
+
+/**
+ * LinkedIn "Sort by" facet values
+ */
+export type SortByFacet = 'relevance' | 'date';
+
+/**
+ * LinkedIn "Content type" facet values
+ */
+export type ContentTypeFacet = 'any' | 'photos' | 'videos' | 'documents' | 'jobs' | 'articles';
+
+/**
+ * Facets applied to a LinkedIn content search
+ * Author/company/industry facets take LinkedIn IDs (member URN ids, company ids, industry ids)
+ */
+export interface SearchFacets {
+  datePosted?: DatePostedFacet;
+  sortBy?: SortByFacet;
+  contentType?: ContentTypeFacet;
+  fromMember?: string[];
+  authorCompany?: string[];
+  authorIndustry?: string[];
+  authorJobTitle?: string;
+}
+
+/**
+ * How post content is extracted
+ * - full: open every post page (slow, most reliable)
+ * - fast: read the search result cards, open post pages only when a card is truncated or incomplete
+ */
+export type ExtractionMode = 'full' | 'fast';
+
+/**
+ * Structured boolean query, compiled into a LinkedIn query string
+ */
+export interface StructuredQuery {
+  all_of?: string[];
+  any_of?: string[];
+  none_of?: string[];
+  phrases?: string[];
+}
+
+/**
+ * What to search for: keywords or a structured query, how far to scroll, and facets
+ */
+export interface SearchQueryParams {
+  keywords?: string;
+  query?: StructuredQuery;
   pagination?: number;
+  target_count?: number;
+  date_posted?: DatePostedFacet;
+  sort_by?: SortByFacet;
+  content_type?: ContentTypeFacet;
+  from_member?: string[];
+  author_company?: string[];
+  author_industry?: string[];
+  author_job_title?: string;
+}
+
+/**
+ * search_posts parameters
+ * With `queries`, each entry is searched in turn in one browser session; the top-level
+ * pagination/target_count/facets are defaults for entries that don't set their own
+ */
+export interface SearchPostsParams extends SearchQueryParams {
+  queries?: SearchQueryParams[];
+  headless?: boolean;
+  extraction_mode?: ExtractionMode;
+  max_scrolls?: number;
+  stall_scrolls?: number;
+  refresh_existing?: boolean;
+  post_timeout_seconds?: number;
+  max_retries?: number;
+  comments_limit?: number;
+  screenshots?: boolean;
+  save_partial?: boolean;  // Save the posts extracted before a cancellation (default: true)
+}
+
+/**
+ * scrape_post parameters
+ */
+export interface ScrapePostParams {
+  urls: string[];  // Post links (feed update or /posts/ URLs) or URNs
   headless?: boolean;
+  refresh_existing?: boolean;
+  post_timeout_seconds?: number;
+  max_retries?: number;
+  comments_limit?: number;
+  screenshots?: boolean;
+}
+
+/**
+ * Why a post couldn't be extracted
+ */
+export type PostFailureReason = 'timeout' | 'auth-wall' | 'removed' | 'empty-content' | 'unknown';
+
+/**
+ * Page LinkedIn showed instead of the content; any of them stops the search
+ * - login: redirected to login/authwall (session expired)
+ * - checkpoint: security verification
+ * - captcha: captcha challenge
+ * - rate-limit: "too many requests" (HTTP 429/999)
+ */
+export type BlockedPageKind = 'login' | 'checkpoint' | 'captcha' | 'rate-limit';
+
+/**
+ * A post that failed extraction after all retries
+ */
+export interface PostFailure {
+  link: string;
+  reason: PostFailureReason;
+  message: string;
+  attempts: number;
+}
+
+/**
+ * One way of locating a field in the LinkedIn DOM
+ * - selector: Playwright selector (CSS, or `xpath=...`). Fields read inside the page
+ *   (post.commentary and all search.* fields) must use CSS.
+ * - attribute: read this attribute instead of the text content
+ * - jsonPath: dot path into the attribute value parsed as JSON (e.g. "0.breadcrumb.updateUrn")
+ * - textPattern: only match elements whose text matches this regex
+ */
+export interface SelectorStrategy {
+  name: string;
+  selector: string;
+  attribute?: string;
+  jsonPath?: string;
+  textPattern?: string;
+}
+
+/**
+ * Ordered fallback strategies per field, bundled with the server and overridable from the data directory
+ */
+export interface SelectorRegistry {
+  version: number;
+  fields: Record<string, SelectorStrategy[]>;
+}
+
+/**
+ * Which strategy matched each field (null when none did)
+ */
+export type SelectorMatches = Record<string, string | null>;
+
+/**
+ * How often each strategy matched per field during a search ('none' counts misses)
+ */
+export type SelectorUsage = Record<string, Record<string, number>>;
+
+/**
+ * A person or company tagged in the post commentary
+ */
+export interface PostMention {
+  name: string;
+  url: string;
+  kind: 'person' | 'company';
+}
+
+/**
+ * A link in the post commentary (href resolved, LinkedIn redirects unwrapped)
+ * `apply` marks job application targets: careers pages, ATS boards, forms, LinkedIn job views
+ */
+export interface PostLink {
+  url: string;
+  text: string;
+  kind: 'apply' | 'link';
+}
+
+/**
+ * Anchor as read from the commentary DOM, before classification
+ */
+export interface RawAnchor {
+  href: string;
+  text: string;
+  context?: string;  // text right before the anchor
+}
+
+/**
+ * Original post behind a repost
+ * `reshare`: the reposter added their own commentary, the original is nested below it
+ * `repost`: shared as-is, so the original author/text are the post's own author/text
+ */
+export interface RepostInfo {
+  kind: 'repost' | 'reshare';
+  originalAuthorName?: string;
+  originalAuthorOccupation?: string;
+  originalUrn?: string;
+  originalLink?: string;
+  originalDescription: string;
+}
+
+/**
+ * A comment as shown under the post
+ */
+export interface PostComment {
+  authorName: string;
+  authorHeadline?: string;
+  text: string;
+  relativeTime?: string;  // LinkedIn relative time, e.g. "2d"
 }
 
 export interface PostResult {
@@ -14,14 +213,160 @@ export interface PostResult {
   profileImage?: string;
   authorName?: string;
   authorOccupation?: string;
+  authorProfileUrl?: string;  // canonical /in/<slug>/ or /company/<slug>/ URL
+  authorUrn?: string;
   postDate?: string;
   likeCount?: string;
   commentCount?: string;
+  hashtags?: string[];
+  mentions?: PostMention[];
+  links?: PostLink[];
+  repost?: RepostInfo;
+  comments?: PostComment[];  // Only set when comment capture was requested
+  screenshot?: string;       // Screenshot file name, only set when screenshot capture was requested
+  selectorMatches?: SelectorMatches;
 }
 
 export interface SearchOptions {
-  concurrency?: number;
+  concurrency?: number;   // Post pages open at once (default and cap: the pacing policy's maxConcurrency)
   headless?: boolean;
+  facets?: SearchFacets;
+  extractionMode?: ExtractionMode;
+  targetCount?: number;   // Keep scrolling until this many unique posts are found
+  maxScrolls?: number;    // Scroll cap when targetCount is set (default: 50)
+  stallScrolls?: number;  // Stop after this many scrolls without new posts (default: 3)
+  /**
+   * Given candidate post links, return the ones that are already known.
+   * Known posts are skipped before any extraction happens.
+   */
+  findKnownLinks?: (links: string[]) => Promise<Set<string>>;
+  postTimeoutMs?: number;   // Per-attempt timeout for loading and extracting a post (default: 30000)
+  maxRetries?: number;      // Retries per post after the first attempt (default: 2)
+  retryBackoffMs?: number;  // Base delay before a retry, doubled each attempt (default: 1000)
+  commentsLimit?: number;   // Capture up to this many top comments per post (default: 0, off)
+  screenshots?: boolean;    // Save a screenshot of each post (default: false)
+  /**
+   * Called as the search moves through its phases (browser launch, scrolling, extraction).
+   * Must not throw; events are informational only.
+   */
+  onProgress?: (event: SearchProgress) => void;
+  /**
+   * Stops the search when aborted: scrolling stops, no new post pages are opened and
+   * open ones are closed. Posts extracted so far are returned with stats.cancelled set.
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * Search phase reported to SearchOptions.onProgress
+ * (saving is reported by callers that store the results)
+ */
+export type SearchPhase = 'launching' | 'loading' | 'scrolling' | 'urns-found' | 'extracting' | 'saving';
+
+/**
+ * One progress event of a search
+ */
+export interface SearchProgress {
+  phase: SearchPhase;
+  message: string;
+  current?: number;     // scrolls done / posts processed so far
+  total?: number;       // scroll cap / posts to process
+  queryIndex?: number;  // 0-based position of the query in a batch
+  queryCount?: number;  // number of queries in the batch
+}
+
+/**
+ * Why the search results scroller stopped
+ */
+export type ScrollStopReason = 'pagination-complete' | 'target-reached' | 'no-new-results' | 'max-scrolls' | 'cancelled';
+
+export interface ScrollLimits {
+  pagination: number;
+  targetCount?: number;
+  maxScrolls: number;
+  stallScrolls: number;
+}
+
+export interface ScrollResult {
+  urns: string[];
+  scrolls: number;
+  stopReason: ScrollStopReason;
+  urnStrategy: string | null;  // search.updateUrn strategy that found the URNs
+}
+
+/**
+ * Statistics about how a search was performed
+ */
+export interface SearchStats {
+  extractionMode: ExtractionMode;
+  urnsFound: number;
+  extractedFromCards: number; // Posts taken straight from search result cards (fast mode)
+  fallbackCount: number;      // Posts that needed their post page opened in fast mode
+  skippedKnown: number;       // Posts skipped because they were already known
+  skippedDuplicate: number;   // Posts skipped because an earlier query of the batch found them
+  pagesOpened: number;        // Post pages actually visited
+  skippedBudget: number;      // Posts not extracted because the page-load budget ran out
+  scrolls: number;
+  stopReason: ScrollStopReason;
+  selectorUsage: SelectorUsage;
+  startedAt: string;          // ISO timestamp the search started
+  durationMs: number;
+  cancelled: boolean;         // Stopped early by SearchOptions.signal; posts are the partial results
+}
+
+/**
+ * Result of a search: extracted posts plus how they were obtained
+ */
+export interface SearchResponse {
+  posts: PostResult[];
+  failures: PostFailure[];
+  stats: SearchStats;
+  foundLinks: string[];  // Every post the search surfaced, including known and duplicate ones
+}
+
+/**
+ * One query of a batch search
+ */
+export interface BatchSearchQuery {
+  keywords: string;
+  pagination: number;
+  targetCount?: number;
+  facets?: SearchFacets;
+}
+
+/**
+ * Result of one query of a batch search
+ * `error` is set when the query itself failed (e.g. the results page didn't load); the batch goes on,
+ * unless `blocked` is set too: the query hit a block page and the batch stopped there
+ */
+export interface BatchQueryResult extends SearchResponse {
+  query: BatchSearchQuery;
+  error?: string;
+  blocked?: BlockedPageKind;
+}
+
+/**
+ * Kind of page on a watch list: a member profile or a company page
+ */
+export type WatchedEntityKind = 'person' | 'company';
+
+/**
+ * One activity feed of a scan (the posts of a profile or a company page)
+ */
+export interface ActivityFeedQuery {
+  url: string;         // Feed URL (see buildActivityUrl)
+  label: string;       // For progress messages, e.g. "Acme's posts"
+  pagination: number;
+  targetCount?: number;
+}
+
+/**
+ * Result of one feed of an activity scan
+ * `error` is set when the feed itself failed (e.g. it didn't load); the scan goes on
+ */
+export interface ActivityFeedResult extends SearchResponse {
+  feed: ActivityFeedQuery;
+  error?: string;
 }
 
 
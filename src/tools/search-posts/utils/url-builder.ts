@@ -2,13 +2,89 @@
  * LinkedIn URL building utilities
  */
 
+import type { SearchFacets, DatePostedFacet, SortByFacet, ContentTypeFacet, WatchedEntityKind } from './types.js';
+
+export const DATE_POSTED_VALUES: DatePostedFacet[] = ['past-24h', 'past-week', 'past-month', 'any'];
+export const SORT_BY_VALUES: SortByFacet[] = ['relevance', 'date'];
+export const CONTENT_TYPE_VALUES: ContentTypeFacet[] = ['any', 'photos', 'videos', 'documents', 'jobs', 'articles'];
+
+/**
+ * Facets used when the caller doesn't specify any (past month, most relevant)
+ */
+export const DEFAULT_SEARCH_FACETS: SearchFacets = {
+  datePosted: 'past-month',
+  sortBy: 'relevance',
+  contentType: 'any'
+};
+
+/**
+ * Map our sort values to LinkedIn's URL values
+ */
+const SORT_BY_URL_VALUES: Record<SortByFacet, string> = {
+  relevance: 'relevance',
+  date: 'date_posted'
+};
+
+/**
+ * Map our content type values to LinkedIn's URL values
+ */
+const CONTENT_TYPE_URL_VALUES: Record<Exclude<ContentTypeFacet, 'any'>, string> = {
+  photos: 'photos',
+  videos: 'videos',
+  documents: 'documents',
+  jobs: 'jobs',
+  articles: 'collaborativeArticles'
+};
+
+/**
+ * Merge caller facets over the defaults, dropping empty lists/strings
+ */
+export const resolveSearchFacets = (facets: SearchFacets = {}): SearchFacets => {
+  const resolved: SearchFacets = {
+    datePosted: facets.datePosted ?? DEFAULT_SEARCH_FACETS.datePosted,
+    sortBy: facets.sortBy ?? DEFAULT_SEARCH_FACETS.sortBy,
+    contentType: facets.contentType ?? DEFAULT_SEARCH_FACETS.contentType
+  };
+  
+  if (facets.fromMember?.length) resolved.fromMember = facets.fromMember;
+  if (facets.authorCompany?.length) resolved.authorCompany = facets.authorCompany;
+  if (facets.authorIndustry?.length) resolved.authorIndustry = facets.authorIndustry;
+  if (facets.authorJobTitle?.trim()) resolved.authorJobTitle = facets.authorJobTitle.trim();
+  
+  return resolved;
+};
+
+/**
+ * Encode a facet value the way LinkedIn expects it (JSON string or JSON array)
+ */
+const encodeFacet = (value: string | string[]): string => {
+  return encodeURIComponent(JSON.stringify(value));
+};
+
 /**
  * Build LinkedIn content search URL with filters
- * Applies past-month filter and sorts by relevance
+ * Defaults to the past-month filter sorted by relevance
  */
-export const buildSearchUrl = (keywords: string): string => {
-  const encodedKeywords = encodeURIComponent(keywords);
-  return `https://www.linkedin.com/search/results/content/?datePosted=%22past-month%22&keywords=${encodedKeywords}&origin=FACETED_SEARCH&sortBy=%22relevance%22`;
+export const buildSearchUrl = (keywords: string, facets: SearchFacets = {}): string => {
+  const resolved = resolveSearchFacets(facets);
+  const params: string[] = [];
+  
+  if (resolved.authorCompany) params.push(`authorCompany=${encodeFacet(resolved.authorCompany)}`);
+  if (resolved.authorIndustry) params.push(`authorIndustry=${encodeFacet(resolved.authorIndustry)}`);
+  if (resolved.authorJobTitle) params.push(`authorJobTitle=${encodeFacet(resolved.authorJobTitle)}`);
+  if (resolved.contentType && resolved.contentType !== 'any') {
+    params.push(`contentType=${encodeFacet(CONTENT_TYPE_URL_VALUES[resolved.contentType])}`);
+  }
+  if (resolved.datePosted && resolved.datePosted !== 'any') {
+    params.push(`datePosted=${encodeFacet(resolved.datePosted)}`);
+  }
+  if (resolved.fromMember) params.push(`fromMember=${encodeFacet(resolved.fromMember)}`);
+  
+  params.push(`keywords=${encodeURIComponent(keywords)}`);
+  params.push('origin=FACETED_SEARCH');
+  params.push(`sortBy=${encodeFacet(SORT_BY_URL_VALUES[resolved.sortBy ?? 'relevance'])}`);
+  
+  return `https://www.linkedin.com/search/results/content/?${params.join('&')}`;
 };
 
 /**
@@ -18,5 +94,64 @@ export const buildPostUrl = (urn: string): string => {
   return `https://www.linkedin.com/feed/update/${urn}/`;
 };
 
+// Post URNs as they appear in feed update links (activity, share or ugcPost)
+const POST_URN_PATTERN = /urn:li:(activity|share|ugcPost):(\d+)/;
+// Post ID inside a /posts/ link slug, e.g. /posts/jane-doe_hiring-activity-7123456789012345678-AbCd
+const POST_SLUG_PATTERN = /\/posts\/[^/?#]*?-(activity|share|ugcPost)-(\d+)/;
+const LINKEDIN_URL_PATTERN = /^(https?:\/\/)?([\w-]+\.)*linkedin\.com\//i;
+
+/**
+ * Normalise a post link (feed update URL, /posts/ URL or bare URN) to the post's URN
+ * Returns null when the input isn't a LinkedIn post link
+ */
+export const parsePostUrn = (input: string): string | null => {
+  let text = input.trim();
+  try {
+    text = decodeURIComponent(text);
+  } catch (_) {
+    // Not URI-encoded
+  }
+  
+  if (!text.startsWith('urn:li:') && !LINKEDIN_URL_PATTERN.test(text)) {
+    return null;
+  }
+  
+  const match = text.match(POST_URN_PATTERN) ?? text.match(POST_SLUG_PATTERN);
+  return match ? `urn:li:${match[1]}:${match[2]}` : null;
+};
+
+// Member profile (/in/<slug>) or company page (/company/<slug>), with any subpage after the slug
+const PROFILE_URL_PATTERN = /^(?:https?:\/\/)?(?:[\w-]+\.)*linkedin\.com\/(in|company)\/([^/?#]+)/i;
 
+/**
+ * Normalise a profile or company page link to its canonical URL (trailing slash, no subpage or query)
+ * Returns null when the input isn't a LinkedIn profile or company page link
+ */
+export const parseProfileUrl = (input: string): { kind: WatchedEntityKind; profileUrl: string; slug: string } | null => {
+  const match = input.trim().match(PROFILE_URL_PATTERN);
+  if (!match) {
+    return null;
+  }
+  
+  const section = match[1].toLowerCase();
+  let slug = match[2];
+  try {
+    slug = decodeURIComponent(slug);
+  } catch (_) {
+    // Not URI-encoded
+  }
+  return {
+    kind: section === 'in' ? 'person' : 'company',
+    profileUrl: `https://www.linkedin.com/${section}/${encodeURIComponent(slug)}/`,
+    slug
+  };
+};
 
+/**
+ * Build the URL of the feed listing a profile's or company page's own posts (and reposts)
+ */
+export const buildActivityUrl = (kind: WatchedEntityKind, profileUrl: string): string => {
+  return kind === 'person'
+    ? `${profileUrl}recent-activity/all/`
+    : `${profileUrl}posts/?feedView=all`;
+};
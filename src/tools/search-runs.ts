@@ -0,0 +1,110 @@
+import { 
+  listSearchRuns, 
+  countSearchRuns,
+  getSearchRunById,
+  queryPosts
+} from '../db/operations.js';
+import type { DbSearchRunWithPosts } from '../db/operations.js';
+
+export interface SearchRunsParams {
+  run_id?: number;
+  query?: string;
+  limit?: number;
+  offset?: number;
+}
+
+/**
+ * Format stored facets JSON as one line (e.g. "datePosted: past-week | sortBy: date")
+ */
+const formatFacets = (facets: string): string => {
+  try {
+    const parsed = facets ? JSON.parse(facets) as Record<string, unknown> : {};
+    const parts = Object.entries(parsed)
+      .map(([key, value]) => `${key}: ${Array.isArray(value) ? value.join(', ') : value}`);
+    return parts.length > 0 ? parts.join(' | ') : 'none';
+  } catch (_) {
+    return facets;
+  }
+};
+
+/**
+ * Format a search run for display
+ */
+const formatRun = (run: DbSearchRunWithPosts): string => {
+  const started = run.started_at.replace('T', ' ').slice(0, 19);
+  const duration = `${(run.duration_ms / 1000).toFixed(1)}s`;
+  
+  return `--- Run #${run.id} ---
+Query: ${run.query}
+Facets: ${formatFacets(run.facets)}
+Started: ${started} UTC | Duration: ${duration} | Mode: ${run.extraction_mode}
+Found: ${run.urns_found} | New: ${run.new_posts} | Duplicates: ${run.duplicates} | Failed: ${run.failures} | Linked posts: ${run.linked_posts}
+${run.error ? `Error: ${run.error}\n` : ''}`;
+};
+
+/**
+ * Show one run and the IDs of the posts it found
+ */
+const handleSingleRun = async (runId: number): Promise<string> => {
+  const run = await getSearchRunById(runId);
+  if (!run) {
+    return `Search run #${runId} not found.`;
+  }
+  
+  const posts = await queryPosts({ runId });
+  let result = formatRun(run);
+  result += posts.length > 0
+    ? `Post IDs: ${posts.map(p => p.id).join(', ')}\n\n💡 Read them with manage_posts (action: read, run_id: ${runId})`
+    : 'No stored posts are linked to this run.';
+  
+  return result;
+};
+
+/**
+ * Main handler for the list_search_runs tool
+ */
+export const handleLinkedInListSearchRuns = async (params: SearchRunsParams) => {
+  try {
+    let result: string;
+    
+    if (params.run_id !== undefined) {
+      result = await handleSingleRun(params.run_id);
+    } else {
+      const limit = params.limit ?? 10;
+      const offset = params.offset ?? 0;
+      const runs = await listSearchRuns({ query: params.query, limit, offset });
+      const total = await countSearchRuns(params.query);
+      
+      if (runs.length === 0) {
+        result = params.query
+          ? `No search runs found for query containing "${params.query}".`
+          : 'No search runs recorded yet. Runs are recorded by search_posts and manage_saved_searches.';
+      } else {
+        result = `Found ${total} search runs${params.query ? ` (query containing "${params.query}")` : ''}\n`;
+        result += `Showing ${runs.length} runs, newest first (offset: ${offset}):\n\n`;
+        result += runs.map(formatRun).join('\n');
+        
+        // Pagination hint
+        const nextOffset = offset + runs.length;
+        result += nextOffset < total
+          ? `\n💡 Next batch: use offset=${nextOffset}`
+          : `\n✓ All runs shown`;
+      }
+    }
+    
+    return {
+      content: [{
+        type: "text" as const,
+        text: result
+      }]
+    };
+    
+  } catch (error) {
+    return {
+      content: [{
+        type: "text" as const,
+        text: `Error: ${error instanceof Error ? error.message : 'Unknown error occurred'}`
+      }]
+    };
+  }
+};
@@ -7,9 +7,18 @@ import {
   updatePost, 
   getPostById, 
   updateAppliedStatus,
-  updateSavedStatus 
+  updateSavedStatus,
+  attachPostEntities,
+  getPostComments,
+  listSearchRuns,
+  listSavedSearches,
+  listWatchedEntities
 } from '../../db/operations.js';
 import { getScreenshotsPath } from '../../utils/paths.js';
+import { getSchedulerStatus } from '../saved-searches/scheduler.js';
+import { isWatchCheckRunning } from '../watch-list/runner.js';
+import { scrapePostUrls, MAX_SCRAPE_URLS } from '../search-posts/scrape-post.js';
+import { PageBudgetError, LinkedInBlockedError } from '../search-posts/utils/errors.js';
 import { 
   getFilterState, 
   updateFilterState, 
@@ -23,7 +32,7 @@ import type { DbPost } from '../../db/operations.js';
  */
 export async function handleGetAllPosts(req: Request, res: Response): Promise<void> {
   try {
-    const posts = await getAllPosts();
+    const posts = await attachPostEntities(await getAllPosts());
     res.json(posts);
   } catch (error) {
     res.status(500).json({ error: 'Failed to load posts from database' });
@@ -49,12 +58,74 @@ export async function handleGetSinglePost(req: Request, res: Response): Promise<
       return;
     }
     
-    res.json(post);
+    const [postWithEntities] = await attachPostEntities([post]);
+    res.json(postWithEntities);
   } catch (error) {
     res.status(500).json({ error: 'Failed to load post' });
   }
 }
 
+/**
+ * GET /api/posts/:id/comments - Get the captured comments of a post
+ */
+export async function handleGetPostComments(req: Request, res: Response): Promise<void> {
+  try {
+    const id = parseInt(req.params.id);
+    
+    if (isNaN(id)) {
+      res.status(400).json({ error: 'Invalid post ID' });
+      return;
+    }
+    
+    if (!await getPostById(id)) {
+      res.status(404).json({ error: 'Post not found' });
+      return;
+    }
+    
+    const comments = await getPostComments(id);
+    res.json(comments);
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to load comments' });
+  }
+}
+
+/**
+ * GET /api/search-runs - Get recorded search runs (newest first)
+ */
+export async function handleGetSearchRuns(req: Request, res: Response): Promise<void> {
+  try {
+    const limit = parseInt(String(req.query.limit ?? '200'));
+    const runs = await listSearchRuns({ limit: isNaN(limit) ? 200 : limit });
+    res.json(runs);
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to load search runs' });
+  }
+}
+
+/**
+ * GET /api/saved-searches - Get saved searches with their last-run status, and the scheduler state
+ */
+export async function handleGetSavedSearches(req: Request, res: Response): Promise<void> {
+  try {
+    const searches = await listSavedSearches();
+    res.json({ searches, scheduler: getSchedulerStatus() });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to load saved searches' });
+  }
+}
+
+/**
+ * GET /api/watch-list - Get watched profiles and company pages with their last-check status
+ */
+export async function handleGetWatchList(req: Request, res: Response): Promise<void> {
+  try {
+    const entities = await listWatchedEntities();
+    res.json({ entities, checking: isWatchCheckRunning() });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to load the watch list' });
+  }
+}
+
 /**
  * POST /api/posts/bulk-update - Update multiple posts
  */
@@ -79,6 +150,51 @@ export async function handleBulkUpdatePosts(req: Request, res: Response): Promis
   }
 }
 
+/**
+ * POST /api/posts/scrape - Scrape posts by link and save them with the "manual" source
+ * Body: { urls: string[] }. Runs headless; closing the request stops the scrape
+ */
+export async function handleScrapePosts(req: Request, res: Response): Promise<void> {
+  const { urls } = req.body ?? {};
+  
+  if (!Array.isArray(urls) || urls.length === 0 || !urls.every(url => typeof url === 'string')) {
+    res.status(400).json({ error: 'Provide urls: a list of LinkedIn post links' });
+    return;
+  }
+  
+  if (urls.length > MAX_SCRAPE_URLS) {
+    res.status(400).json({ error: `Scrape at most ${MAX_SCRAPE_URLS} posts at a time` });
+    return;
+  }
+  
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableFinished) controller.abort();
+  });
+  
+  try {
+    const { invalidUrls, knownLinks, response, saveResult, saveError } = await scrapePostUrls(urls, {
+      headless: true,
+      signal: controller.signal
+    });
+    
+    res.json({
+      added: saveResult?.newPostsAdded ?? 0,
+      known: knownLinks,
+      invalid: invalidUrls,
+      failures: response?.failures ?? [],
+      skippedBudget: response?.stats.skippedBudget ?? 0,
+      posts: response?.posts ?? [],
+      saveError: saveError ?? null
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to scrape posts';
+    // LinkedIn refused, or the budget is used up: retrying right away won't help
+    const status = error instanceof LinkedInBlockedError || error instanceof PageBudgetError ? 503 : 500;
+    res.status(status).json({ error: message });
+  }
+}
+
 /**
  * DELETE /api/posts/:id - Delete a post by ID
  */
@@ -2,7 +2,12 @@ import { Router } from 'express';
 import {
   handleGetAllPosts,
   handleGetSinglePost,
+  handleGetPostComments,
+  handleGetSearchRuns,
+  handleGetSavedSearches,
+  handleGetWatchList,
   handleBulkUpdatePosts,
+  handleScrapePosts,
   handleDeletePost,
   handleUpdateAppliedStatus,
   handleUpdateSavedStatus,
@@ -21,11 +26,22 @@ export function createApiRouter(): Router {
   // Post routes
   router.get('/posts', handleGetAllPosts);
   router.get('/posts/:id', handleGetSinglePost);
+  router.get('/posts/:id/comments', handleGetPostComments);
   router.post('/posts/bulk-update', handleBulkUpdatePosts);
+  router.post('/posts/scrape', handleScrapePosts);
   router.delete('/posts/:id', handleDeletePost);
   router.patch('/posts/:id/applied', handleUpdateAppliedStatus);
   router.patch('/posts/:id/saved', handleUpdateSavedStatus);
   
+  // Search run routes
+  router.get('/search-runs', handleGetSearchRuns);
+  
+  // Saved search routes
+  router.get('/saved-searches', handleGetSavedSearches);
+  
+  // Watch list routes
+  router.get('/watch-list', handleGetWatchList);
+  
   // Screenshot routes
   router.get('/screenshots/:filename', handleGetScreenshot);
   
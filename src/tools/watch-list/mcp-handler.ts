@@ -0,0 +1,212 @@
+/**
+ * MCP handler for the manage_watch_list tool
+ * Add, list and remove watched profiles and company pages, and check their feeds for new posts
+ */
+
+import {
+  insertWatchedEntity,
+  deleteWatchedEntity,
+  getWatchedEntityById,
+  getWatchedEntityByUrl,
+  getWatchedEntityByName,
+  listWatchedEntities
+} from '../../db/operations.js';
+import type { DbWatchedEntity } from '../../db/operations.js';
+import { ensureResourceDirectories } from '../../utils/paths.js';
+import { formatTime } from '../../utils/format-time.js';
+import type { ProgressNotifier } from '../../utils/mcp-progress.js';
+import { toProgressListener } from '../search-posts/mcp-handler.js';
+import { parseProfileUrl } from '../search-posts/utils/url-builder.js';
+import { checkWatchedEntities, type WatchCheckResult } from './runner.js';
+
+export type WatchListAction = 'add' | 'list' | 'remove' | 'check';
+
+export interface WatchListParams {
+  action: WatchListAction;
+  id?: number;
+  url?: string;
+  name?: string;
+  pagination?: number;
+  target_count?: number;
+  headless?: boolean;
+}
+
+/**
+ * Find the watched entity an action targets: by id, then profile URL, then name
+ */
+const findTarget = async (params: WatchListParams): Promise<DbWatchedEntity | null> => {
+  if (params.id !== undefined) {
+    return getWatchedEntityById(params.id);
+  }
+  if (params.url?.trim()) {
+    const parsed = parseProfileUrl(params.url);
+    return parsed ? getWatchedEntityByUrl(parsed.profileUrl) : null;
+  }
+  if (params.name?.trim()) {
+    return getWatchedEntityByName(params.name.trim());
+  }
+  throw new Error('id, url or name is required');
+};
+
+/**
+ * Format a watched entity for display
+ */
+const formatWatchedEntity = (entity: DbWatchedEntity): string => {
+  const lastCheck = entity.last_checked_at
+    ? `${formatTime(entity.last_checked_at)} - ${entity.last_status === 'ok' ? `✓ ${entity.last_new_posts} new posts` : `✗ ${entity.last_error}`}` +
+      (entity.last_run_id ? ` (run #${entity.last_run_id})` : '')
+    : 'never';
+
+  return `--- #${entity.id} ${entity.name} (${entity.kind}) ---
+URL: ${entity.profile_url}
+Posts saved: ${entity.post_count}
+Last check: ${lastCheck}
+`;
+};
+
+/**
+ * Format the outcome of checking one entity's feed
+ */
+const formatCheckResult = ({ entity, result, saveResult, tagged, runId, error }: WatchCheckResult): string => {
+  const { stats } = result;
+  let text = `${entity.name}: `;
+  text += error
+    ? `✗ ${error}\n`
+    : `✓ ${saveResult?.newPostsAdded ?? 0} new posts` +
+      ` (${stats.urnsFound} in the feed, ${stats.skippedKnown} already known, ${result.failures.length} failed` +
+      (stats.skippedBudget > 0 ? `, ${stats.skippedBudget} skipped for the page-load budget` : '') + ')' +
+      (tagged > (saveResult?.newPostsAdded ?? 0) ? `, ${tagged - (saveResult?.newPostsAdded ?? 0)} known posts tagged` : '') + '\n';
+  text += runId ? `   🗂️ Search run #${runId}` : '   ⚠️ The search run could not be recorded';
+  return text;
+};
+
+/**
+ * Add a profile or company page to the watch list
+ */
+const handleAdd = async (params: WatchListParams): Promise<string> => {
+  if (!params.url?.trim()) {
+    return 'url is required: a LinkedIn profile (linkedin.com/in/...) or company page (linkedin.com/company/...) link.';
+  }
+
+  const parsed = parseProfileUrl(params.url);
+  if (!parsed) {
+    return `Not a LinkedIn profile or company page link: ${params.url}`;
+  }
+
+  const id = await insertWatchedEntity({
+    kind: parsed.kind,
+    name: params.name?.trim() || parsed.slug,
+    profile_url: parsed.profileUrl
+  });
+  return `✓ Watching\n\n${formatWatchedEntity((await getWatchedEntityById(id))!)}\n` +
+    '💡 Check its posts with action: check';
+};
+
+/**
+ * Check one watched entity's feed, or all of them
+ */
+const handleCheck = async (
+  params: WatchListParams,
+  notifyProgress?: ProgressNotifier,
+  signal?: AbortSignal
+): Promise<string> => {
+  if (params.pagination !== undefined && (!Number.isInteger(params.pagination) || params.pagination < 0)) {
+    return `Invalid pagination: ${params.pagination}. Use 0 or a positive integer.`;
+  }
+  if (params.target_count !== undefined && (!Number.isInteger(params.target_count) || params.target_count < 1)) {
+    return `Invalid target_count: ${params.target_count}. Use a positive integer.`;
+  }
+
+  let entities: DbWatchedEntity[];
+  if (params.id !== undefined || params.url?.trim() || params.name?.trim()) {
+    const entity = await findTarget(params);
+    if (!entity) {
+      return 'Watched entity not found.';
+    }
+    entities = [entity];
+  } else {
+    entities = await listWatchedEntities();
+    if (entities.length === 0) {
+      return 'The watch list is empty. Add a profile or company page with action: add.';
+    }
+  }
+
+  const checks = await checkWatchedEntities(entities, {
+    pagination: params.pagination,
+    targetCount: params.target_count,
+    headless: params.headless ?? false,
+    onProgress: toProgressListener(notifyProgress),
+    signal
+  });
+
+  const newPosts = checks.reduce((sum, check) => sum + (check.saveResult?.newPostsAdded ?? 0), 0);
+  let result = `👀 Checked ${checks.length} of ${entities.length} watched feeds: ${newPosts} new posts\n\n`;
+  result += checks.map(formatCheckResult).join('\n');
+  if (checks.length < entities.length) {
+    result += `\n\n⏹️ Not checked: ${entities.slice(checks.length).map(entity => entity.name).join(', ')}`;
+  }
+  return result;
+};
+
+/**
+ * Main handler for the manage_watch_list tool
+ *
+ * @param notifyProgress - Sends MCP progress notifications during a check, when the client asked for them
+ * @param signal - Aborted when the client cancels the request; a check stops and saves what it extracted
+ */
+export const handleLinkedInWatchList = async (
+  params: WatchListParams,
+  notifyProgress?: ProgressNotifier,
+  signal?: AbortSignal
+) => {
+  try {
+    // Ensure resource directories exist before database creation
+    ensureResourceDirectories();
+
+    let result: string;
+
+    switch (params.action) {
+      case 'add':
+        result = await handleAdd(params);
+        break;
+
+      case 'list': {
+        const entities = await listWatchedEntities();
+        result = entities.length > 0
+          ? `${entities.length} watched profiles and pages\n\n${entities.map(formatWatchedEntity).join('\n')}`
+          : 'The watch list is empty. Add a profile or company page with action: add.';
+        break;
+      }
+
+      case 'remove': {
+        const entity = await findTarget(params);
+        result = entity && await deleteWatchedEntity(entity.id)
+          ? `✓ Stopped watching "${entity.name}" (its ${entity.post_count} saved posts are kept)`
+          : 'Watched entity not found.';
+        break;
+      }
+
+      case 'check':
+        result = await handleCheck(params, notifyProgress, signal);
+        break;
+
+      default:
+        result = `Unknown action: ${params.action}. Use add, list, remove or check.`;
+    }
+
+    return {
+      content: [{
+        type: "text" as const,
+        text: result
+      }]
+    };
+
+  } catch (error) {
+    return {
+      content: [{
+        type: "text" as const,
+        text: `Error: ${error instanceof Error ? error.message : 'Unknown error occurred'}`
+      }]
+    };
+  }
+};
@@ -0,0 +1,124 @@
+/**
+ * Watch list runner
+ * Checks watched profiles' and company pages' activity feeds, stores their new posts tagged
+ * with the entity, records a search run per feed and each entity's last-check status
+ */
+
+import { scanLinkedInActivityFeeds } from '../search-posts/core/search.js';
+import { buildActivityUrl } from '../search-posts/utils/url-builder.js';
+import { saveSearchResourceToDb, saveSearchRunToDb, type DbSaveResult } from '../../utils/resource-storage.js';
+import { ensureResourceDirectories } from '../../utils/paths.js';
+import { getExistingPostLinks, recordWatchedEntityCheck, tagWatchedPosts } from '../../db/operations.js';
+import type { DbWatchedEntity } from '../../db/operations.js';
+import type { ActivityFeedResult, SearchOptions, WatchedEntityKind } from '../search-posts/utils/types.js';
+
+// Stored in place of the search keywords (and as the search run's query), followed by the entity's name
+export const WATCH_SOURCE_PREFIX = 'watch: ';
+
+export interface WatchCheckOptions extends Pick<SearchOptions, 'headless' | 'onProgress' | 'signal'> {
+  pagination?: number;  // Scrolls per feed (default: 2)
+  targetCount?: number; // Keep scrolling each feed until this many posts are found
+}
+
+export interface WatchCheckResult {
+  entity: DbWatchedEntity;
+  result: ActivityFeedResult;
+  saveResult: DbSaveResult | null;
+  tagged: number;          // Posts newly tagged with the entity (new posts and known untagged ones)
+  runId: number | null;    // null if the run could not be recorded
+  error?: string;
+}
+
+// Watch list check currently running (one at a time)
+let checking = false;
+
+/**
+ * Whether a watch list check is running
+ */
+export const isWatchCheckRunning = (): boolean => checking;
+
+/**
+ * Store one feed's posts, tag them and record the check
+ * Save failures are recorded as the entity's last error, not thrown
+ */
+const saveFeedResult = async (
+  entity: DbWatchedEntity,
+  result: ActivityFeedResult,
+  checkedAt: string
+): Promise<WatchCheckResult> => {
+  const source = `${WATCH_SOURCE_PREFIX}${entity.name}`;
+  let error = result.error;
+
+  let saveResult: DbSaveResult | null = null;
+  let tagged = 0;
+  try {
+    if (result.posts.length > 0) {
+      saveResult = await saveSearchResourceToDb(result.posts, source, undefined, false);
+    }
+    // Known posts the feed surfaced get the tag too, unless another entity has it
+    tagged = await tagWatchedPosts(entity.id, result.foundLinks);
+  } catch (saveError) {
+    error = `Failed to save to database: ${saveError instanceof Error ? saveError.message : String(saveError)}`;
+  }
+
+  // Recorded after saving, so the run links to the posts it just added
+  let runId: number | null = null;
+  try {
+    runId = await saveSearchRunToDb(source, undefined, result, saveResult, error);
+  } catch (_) {
+    // The last-check status below still tells the outcome
+  }
+
+  await recordWatchedEntityCheck(entity.id, {
+    checkedAt,
+    runId,
+    status: error ? 'error' : 'ok',
+    error: error ?? '',
+    newPosts: saveResult?.newPostsAdded ?? 0
+  });
+
+  return { entity, result, saveResult, tagged, runId, error };
+};
+
+/**
+ * Check the activity feeds of watched entities in one browser session and store their new posts
+ * Only posts not in the database yet are extracted. Entities the check didn't reach (after a
+ * block page or a cancellation) are left out of the results and keep their last-check status.
+ * @throws Error if another check is already running
+ * @throws Error if authentication is invalid
+ * @throws PageBudgetError if the page-load budget is used up
+ */
+export const checkWatchedEntities = async (
+  entities: DbWatchedEntity[],
+  options: WatchCheckOptions = {}
+): Promise<WatchCheckResult[]> => {
+  if (checking) {
+    throw new Error('A watch list check is already running, try again when it finishes');
+  }
+
+  checking = true;
+  try {
+    // Ensure resource directories exist before database creation
+    ensureResourceDirectories();
+
+    const { pagination = 2, targetCount, ...scanOptions } = options;
+    const checkedAt = new Date().toISOString();
+    const results = await scanLinkedInActivityFeeds(
+      entities.map(entity => ({
+        url: buildActivityUrl(entity.kind as WatchedEntityKind, entity.profile_url),
+        label: `${entity.name}'s posts`,
+        pagination,
+        targetCount
+      })),
+      { ...scanOptions, findKnownLinks: getExistingPostLinks }
+    );
+
+    const checks: WatchCheckResult[] = [];
+    for (const [index, result] of results.entries()) {
+      checks.push(await saveFeedResult(entities[index], result, checkedAt));
+    }
+    return checks;
+  } finally {
+    checking = false;
+  }
+};
@@ -12,6 +12,8 @@ export interface FilterState {
   startDate: string | null; // ISO date string
   endDate: string | null;   // ISO date string
   idFilter: string;
+  authorFilter: string;     // author profile URL, or name for posts without one ('' = all)
+  runFilter: number | null; // search run ID (null = all runs)
 }
 
 /**
@@ -23,7 +25,9 @@ const DEFAULT_FILTER_STATE: FilterState = {
   savedFilter: 'all',
   startDate: null,
   endDate: null,
-  idFilter: ''
+  idFilter: '',
+  authorFilter: '',
+  runFilter: null
 };
 
 /**
@@ -0,0 +1,8 @@
+/**
+ * Timestamp formatting for tool responses
+ */
+
+/**
+ * Format a UTC ISO timestamp for display ("2025-01-31 14:05 UTC"), or "never" when unset
+ */
+export const formatTime = (iso: string | null): string => iso ? `${iso.replace('T', ' ').slice(0, 16)} UTC` : 'never';
@@ -0,0 +1,43 @@
+/**
+ * MCP progress notifications
+ * Sends notifications/progress for a request whose client asked for them (by sending a progress token)
+ */
+
+import type { ProgressToken, ServerNotification } from '@modelcontextprotocol/sdk/types.js';
+
+/**
+ * Report progress of a long-running tool call
+ * @param progress - Work done so far, out of `total`
+ */
+export type ProgressNotifier = (progress: number, total: number, message: string) => void;
+
+/**
+ * Create a progress notifier for a request
+ * Returns undefined when the client sent no progress token (it doesn't want progress)
+ *
+ * Progress must grow with each notification, so values that don't are dropped.
+ * Notifications are fire-and-forget: a failed send never fails the tool call.
+ */
+export const createProgressNotifier = (
+  progressToken: ProgressToken | undefined,
+  sendNotification: (notification: ServerNotification) => Promise<void>
+): ProgressNotifier | undefined => {
+  if (progressToken === undefined) {
+    return undefined;
+  }
+
+  let last = -1;
+  return (progress, total, message) => {
+    if (progress <= last) {
+      return;
+    }
+    last = progress;
+
+    sendNotification({
+      method: 'notifications/progress',
+      params: { progressToken, progress, total, message }
+    }).catch(() => {
+      // Client went away or doesn't handle progress, nothing to do
+    });
+  };
+};
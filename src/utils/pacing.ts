@@ -0,0 +1,261 @@
+import fs from 'fs';
+import path from 'path';
+import { getDataDirectory } from './paths.js';
+
+/**
+ * How the scraper paces LinkedIn page loads, to look less like a bot
+ */
+export interface PacingPolicy {
+  maxConcurrency: number;   // post pages open at the same time, across every search in the process
+  minDelayMs: number;       // random pause before each post page load, between min and max
+  maxDelayMs: number;
+  hourlyPageBudget: number; // page loads allowed in any rolling hour
+  dailyPageBudget: number;  // page loads allowed in any rolling 24 hours
+}
+
+/**
+ * Page loads used and left in the rolling windows
+ */
+export interface PageBudgetStatus {
+  usedLastHour: number;
+  usedLastDay: number;
+  remainingHour: number;
+  remainingDay: number;
+  remaining: number;              // page loads allowed right now (the smaller of the two)
+  nextAvailableAt: string | null; // ISO time a page load frees up, when none is left
+}
+
+/**
+ * Contents of pacing.json: the policy and the times of recent page loads
+ */
+interface PacingFile {
+  policy: PacingPolicy;
+  pageLoads: number[]; // epoch ms of each page load in the last 24 hours
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// Post pages open right now across every search, scrape and watch check in this process,
+// and the callers waiting for one to close
+let openPostPages = 0;
+const pageSlotWaiters = new Set<() => void>();
+
+/**
+ * Default policy: a few pages at a time, a few seconds apart
+ */
+const DEFAULT_PACING_POLICY: PacingPolicy = {
+  maxConcurrency: 3,
+  minDelayMs: 2000,
+  maxDelayMs: 6000,
+  hourlyPageBudget: 120,
+  dailyPageBudget: 400
+};
+
+/**
+ * Get the path to the pacing JSON file
+ */
+function getPacingPath(): string {
+  return path.join(getDataDirectory(), 'pacing.json');
+}
+
+/**
+ * Check one policy value
+ * Returns why the value is invalid, or null if it's valid
+ */
+function checkPolicyValue(key: string, value: unknown): string | null {
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < 0) {
+    return `Invalid ${key} value: ${value}. Use a whole number, 0 or more.`;
+  }
+  if (key === 'maxConcurrency' && value < 1) {
+    return 'maxConcurrency must be at least 1';
+  }
+  return null;
+}
+
+/**
+ * Check that the delay range isn't reversed
+ * Returns why it is invalid, or null if it's valid
+ */
+function checkDelayRange(policy: PacingPolicy): string | null {
+  return policy.minDelayMs > policy.maxDelayMs
+    ? `minDelayMs (${policy.minDelayMs}) cannot be greater than maxDelayMs (${policy.maxDelayMs})`
+    : null;
+}
+
+/**
+ * Build a policy from stored values, using the default for each invalid or missing field
+ * (a reversed delay range falls back to the default range)
+ */
+function normalizePacingPolicy(stored: unknown): PacingPolicy {
+  const values = (stored && typeof stored === 'object' ? stored : {}) as Record<string, unknown>;
+  const policy: PacingPolicy = { ...DEFAULT_PACING_POLICY };
+  
+  for (const key of Object.keys(policy) as (keyof PacingPolicy)[]) {
+    if (checkPolicyValue(key, values[key]) === null) {
+      policy[key] = values[key] as number;
+    }
+  }
+  if (checkDelayRange(policy)) {
+    policy.minDelayMs = DEFAULT_PACING_POLICY.minDelayMs;
+    policy.maxDelayMs = DEFAULT_PACING_POLICY.maxDelayMs;
+  }
+  
+  return policy;
+}
+
+/**
+ * Read the pacing file, dropping page loads older than 24 hours
+ * Returns defaults if the file doesn't exist or is invalid, and per field for invalid policy values
+ */
+function readPacingFile(now: number): PacingFile {
+  const filePath = getPacingPath();
+  
+  try {
+    if (!fs.existsSync(filePath)) {
+      return { policy: { ...DEFAULT_PACING_POLICY }, pageLoads: [] };
+    }
+    
+    const data = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as Partial<PacingFile>;
+    return {
+      policy: normalizePacingPolicy(data.policy),
+      pageLoads: (Array.isArray(data.pageLoads) ? data.pageLoads : []).filter(t => typeof t === 'number' && now - t < DAY_MS)
+    };
+  } catch (error) {
+    return { policy: { ...DEFAULT_PACING_POLICY }, pageLoads: [] };
+  }
+}
+
+/**
+ * Write the pacing file
+ */
+function writePacingFile(pacing: PacingFile): void {
+  const filePath = getPacingPath();
+  const dataDir = path.dirname(filePath);
+  
+  // Ensure data directory exists
+  if (!fs.existsSync(dataDir)) {
+    fs.mkdirSync(dataDir, { recursive: true });
+  }
+  
+  fs.writeFileSync(filePath, JSON.stringify(pacing, null, 2), 'utf-8');
+}
+
+/**
+ * Get the current pacing policy
+ */
+export function getPacingPolicy(): PacingPolicy {
+  return readPacingFile(Date.now()).policy;
+}
+
+/**
+ * Update the pacing policy (partial update, merged with the current policy)
+ * @throws Error if a value is out of range
+ */
+export function updatePacingPolicy(updates: Partial<PacingPolicy>): PacingPolicy {
+  const now = Date.now();
+  const pacing = readPacingFile(now);
+  const policy: PacingPolicy = { ...pacing.policy, ...updates };
+  
+  for (const [key, value] of Object.entries(policy)) {
+    const invalid = checkPolicyValue(key, value);
+    if (invalid) {
+      throw new Error(invalid);
+    }
+  }
+  const reversed = checkDelayRange(policy);
+  if (reversed) {
+    throw new Error(reversed);
+  }
+  
+  writePacingFile({ ...pacing, policy });
+  return policy;
+}
+
+/**
+ * Get page loads used and left in the last hour and the last 24 hours
+ */
+export function getPageBudgetStatus(now: number = Date.now()): PageBudgetStatus {
+  const { policy, pageLoads } = readPacingFile(now);
+  const lastHour = pageLoads.filter(t => now - t < HOUR_MS);
+  const remainingHour = Math.max(0, policy.hourlyPageBudget - lastHour.length);
+  const remainingDay = Math.max(0, policy.dailyPageBudget - pageLoads.length);
+  const remaining = Math.min(remainingHour, remainingDay);
+  
+  // Out of budget: the window that's full frees up when its oldest load ages out
+  let nextAvailableAt: string | null = null;
+  if (remaining === 0) {
+    const hourFree = remainingHour === 0 && lastHour.length > 0 ? Math.min(...lastHour) + HOUR_MS : now;
+    const dayFree = remainingDay === 0 && pageLoads.length > 0 ? Math.min(...pageLoads) + DAY_MS : now;
+    nextAvailableAt = new Date(Math.max(hourFree, dayFree)).toISOString();
+  }
+  
+  return {
+    usedLastHour: lastHour.length,
+    usedLastDay: pageLoads.length,
+    remainingHour,
+    remainingDay,
+    remaining,
+    nextAvailableAt
+  };
+}
+
+/**
+ * Count one LinkedIn page load against the budgets, if they have one left
+ * Checks and records in one synchronous step, so concurrent page loads can't overrun the budget
+ * Returns false, recording nothing, when the budget is used up
+ */
+export function reservePageLoad(now: number = Date.now()): boolean {
+  if (getPageBudgetStatus(now).remaining === 0) {
+    return false;
+  }
+  
+  const pacing = readPacingFile(now);
+  pacing.pageLoads.push(now);
+  writePacingFile(pacing);
+  return true;
+}
+
+/**
+ * Random pause to take before a page load, per the policy
+ */
+export function getPacingDelayMs(policy: PacingPolicy): number {
+  return policy.minDelayMs + Math.floor(Math.random() * (policy.maxDelayMs - policy.minDelayMs + 1));
+}
+
+/**
+ * Wait until fewer post pages than the policy's maxConcurrency are open, and take a slot
+ * Shared by everything running in this process, so scheduled and manual searches together stay within the limit
+ * Resolves false, taking no slot, when the signal is aborted first
+ */
+export function acquirePageSlot(signal?: AbortSignal): Promise<boolean> {
+  return new Promise(resolve => {
+    const tryAcquire = (): void => {
+      if (signal?.aborted) {
+        settle(false);
+      } else if (openPostPages < getPacingPolicy().maxConcurrency) {
+        openPostPages++;
+        settle(true);
+      }
+    };
+    const settle = (acquired: boolean): void => {
+      pageSlotWaiters.delete(tryAcquire);
+      signal?.removeEventListener('abort', tryAcquire);
+      resolve(acquired);
+    };
+    
+    pageSlotWaiters.add(tryAcquire);
+    signal?.addEventListener('abort', tryAcquire, { once: true });
+    tryAcquire();
+  });
+}
+
+/**
+ * Give back a slot taken with acquirePageSlot and let the callers waiting for one retry
+ */
+export function releasePageSlot(): void {
+  openPostPages = Math.max(0, openPostPages - 1);
+  for (const waiter of Array.from(pageSlotWaiters)) {
+    waiter();
+  }
+}
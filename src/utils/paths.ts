@@ -45,6 +45,25 @@ export const getTempAuthPath = (): string => {
   return authPath.replace('.json', '.tmp.json');
 };
 
+/**
+ * Get the selector registry override path
+ * Windows: %APPDATA%/linkedin-mcp/selectors.json
+ * Mac/Linux: ~/.linkedin-mcp/selectors.json
+ */
+export const getSelectorOverridePath = (): string => {
+  return path.join(getDataDirectory(), 'selectors.json');
+};
+
+/**
+ * Get the browser profile config path (proxy, user agent, locale, viewport)
+ * LINKEDIN_MCP_BROWSER_PROFILE points to another file
+ * Windows: %APPDATA%/linkedin-mcp/browser-profile.json
+ * Mac/Linux: ~/.linkedin-mcp/browser-profile.json
+ */
+export const getBrowserProfilePath = (): string => {
+  return process.env.LINKEDIN_MCP_BROWSER_PROFILE || path.join(getDataDirectory(), 'browser-profile.json');
+};
+
 /**
  * Get the resources storage directory path
  * Windows: %APPDATA%/linkedin-mcp/resources/
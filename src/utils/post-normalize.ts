@@ -0,0 +1,105 @@
+/**
+ * Post date and engagement normalization
+ * Turns LinkedIn's display strings ("1w", "3d • Edited", "1,234", "12 comments") into
+ * an absolute timestamp and integer counts at ingest time
+ */
+
+const MS_PER_MINUTE = 60 * 1000;
+const MS_PER_HOUR = 60 * MS_PER_MINUTE;
+const MS_PER_DAY = 24 * MS_PER_HOUR;
+const MS_PER_WEEK = 7 * MS_PER_DAY;
+const MS_PER_MONTH = 30 * MS_PER_DAY; // Approximate, LinkedIn doesn't say more
+const MS_PER_YEAR = 365 * MS_PER_DAY; // Approximate
+
+// Short ("3d", "2mo") and long ("3 days ago", "2 months") units, longest alternatives first
+const RELATIVE_TIME_PATTERN = /(\d+)\s*(months?|mos?|minutes?|mins?|m|hours?|hrs?|h|days?|d|weeks?|wks?|w|years?|yrs?|y)\b/i;
+
+const UNIT_MS: Record<string, number> = {
+  m: MS_PER_MINUTE,
+  min: MS_PER_MINUTE,
+  h: MS_PER_HOUR,
+  d: MS_PER_DAY,
+  w: MS_PER_WEEK,
+  mo: MS_PER_MONTH,
+  y: MS_PER_YEAR
+};
+
+/**
+ * Parse a LinkedIn relative time ("1w", "3d • Edited", "2 months ago", "now") to milliseconds
+ * Returns null when the string holds no recognizable age
+ */
+export const parseRelativeTime = (relativeTime: string | null | undefined): number | null => {
+  if (!relativeTime || relativeTime.trim() === '') return null;
+
+  if (/^\s*(just )?now\b/i.test(relativeTime)) {
+    return 0;
+  }
+
+  const match = relativeTime.match(RELATIVE_TIME_PATTERN);
+  if (!match) return null;
+
+  const value = parseInt(match[1], 10);
+  const unit = match[2].toLowerCase();
+
+  // Map long forms onto the short keys: "minutes" -> "min", "months" -> "mo", "hrs" -> "h", ...
+  const key = unit.startsWith('mo') ? 'mo'
+    : unit.startsWith('mi') ? 'min'
+    : unit.startsWith('h') ? 'h'
+    : unit.startsWith('d') ? 'd'
+    : unit.startsWith('w') ? 'w'
+    : unit.startsWith('y') ? 'y'
+    : unit;
+
+  return UNIT_MS[key] !== undefined ? value * UNIT_MS[key] : null;
+};
+
+/**
+ * Compute the absolute post timestamp (ISO) from the relative post date and the time it was seen
+ * Absolute dates (e.g. "2024-03-01") are accepted as-is. Returns null when neither parses.
+ */
+export const computePostedAt = (postDate: string | null | undefined, seenAt: string): string | null => {
+  const seen = new Date(seenAt);
+  const relativeMs = parseRelativeTime(postDate);
+
+  if (relativeMs !== null && !isNaN(seen.getTime())) {
+    return new Date(seen.getTime() - relativeMs).toISOString();
+  }
+
+  // Some surfaces show a date instead of an age
+  if (postDate && /\d{4}/.test(postDate)) {
+    const absolute = new Date(postDate);
+    if (!isNaN(absolute.getTime())) {
+      return absolute.toISOString();
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Parse an engagement count ("1,234", "1.2K", "12 comments", "Jane Doe and 41 others") to an integer
+ * Returns null when the string holds no number
+ */
+export const parseEngagementCount = (raw: string | null | undefined): number | null => {
+  if (!raw || raw.trim() === '') return null;
+
+  // "Jane Doe and 41 others" counts Jane too
+  const others = raw.match(/and ([\d.,]+) others?/i);
+  if (others) {
+    const count = parseEngagementCount(others[1]);
+    return count !== null ? count + 1 : null;
+  }
+
+  const match = raw.match(/(\d+(?:[.,\s]\d{3})*(?:[.,]\d+)?)\s*([KkMm])?(?![a-z])/);
+  if (!match) return null;
+
+  const suffix = match[2]?.toUpperCase();
+  if (suffix) {
+    // Abbreviated: "1.2K", "3,4K" - the separator is a decimal point
+    const value = parseFloat(match[1].replace(/\s/g, '').replace(',', '.'));
+    return Math.round(value * (suffix === 'K' ? 1000 : 1000000));
+  }
+
+  // Full number: separators group thousands ("1,234", "1.234", "1 234")
+  return parseInt(match[1].replace(/[.,\s]/g, ''), 10);
+};
@@ -1,6 +1,6 @@
 import { ensureResourceDirectories } from './paths.js';
-import type { PostResult } from '../tools/search-posts/utils/types.js';
-import { insertPost, countPosts } from '../db/operations.js';
+import type { PostResult, SearchFacets, SearchResponse } from '../tools/search-posts/utils/types.js';
+import { insertPost, countPosts, refreshScrapedPost, getPostIdByLink, replacePostEntities, updateRepostInfo, replacePostComments, upsertAuthor, setPostAuthor, setPostScreenshot, insertSearchRun, linkSearchRunPosts } from '../db/operations.js';
 
 /**
  * Database save result interface
@@ -9,23 +9,77 @@ export interface DbSaveResult {
   totalPosts: number;
   newPostsAdded: number;
   duplicatesSkipped: number;
+  existingRefreshed: number;
 }
 
+/**
+ * Store a post's author, hashtags, mentions, links, repost details, comments and screenshot
+ * Comments and the screenshot are only replaced when they were captured this time
+ */
+const savePostDetails = async (postId: number, post: PostResult, seenAt: string): Promise<void> => {
+  if (post.authorProfileUrl) {
+    const authorId = await upsertAuthor(
+      post.authorProfileUrl,
+      post.authorUrn || '',
+      post.authorName || '',
+      post.authorOccupation || '',
+      post.profileImage || '',
+      seenAt
+    );
+    await setPostAuthor(postId, authorId);
+  }
+  await updateRepostInfo(postId, post.repost ? {
+    original_author_name: post.repost.originalAuthorName || '',
+    original_author_occupation: post.repost.originalAuthorOccupation || '',
+    original_post_urn: post.repost.originalUrn || '',
+    original_post_link: post.repost.originalLink || '',
+    original_description: post.repost.originalDescription
+  } : null);
+  await replacePostEntities(
+    postId,
+    post.hashtags || [],
+    (post.mentions || []).map(m => ({ name: m.name, profile_url: m.url, kind: m.kind })),
+    (post.links || []).map(l => ({ url: l.url, link_text: l.text, kind: l.kind }))
+  );
+  if (post.comments) {
+    await replacePostComments(
+      postId,
+      post.comments.map(c => ({
+        author_name: c.authorName,
+        author_headline: c.authorHeadline || '',
+        comment_text: c.text,
+        relative_time: c.relativeTime || ''
+      })),
+      new Date().toISOString()
+    );
+  }
+  if (post.screenshot) {
+    await setPostScreenshot(postId, post.screenshot);
+  }
+};
+
 /**
  * Save search results to SQLite database
+ * With refreshExisting, duplicates get their scraped content updated instead of skipped
+ * New posts are stored with `source` ('manual' for posts added by link, with empty keywords)
  * Returns statistics about new posts added and duplicates skipped
  */
 export const saveSearchResourceToDb = async (
   results: PostResult[], 
-  keywords: string
+  keywords: string,
+  facets?: SearchFacets,
+  refreshExisting: boolean = false,
+  source: string = ''
 ): Promise<DbSaveResult> => {
   // Ensure resource directories exist before database creation
   ensureResourceDirectories();
   
   const searchDate = new Date().toISOString();
+  const searchFacets = facets ? JSON.stringify(facets) : '';
   
   let newPostsAdded = 0;
   let duplicatesSkipped = 0;
+  let existingRefreshed = 0;
   
   // Try to insert each post
   for (const post of results) {
@@ -40,11 +94,31 @@ export const saveSearchResourceToDb = async (
       post.authorOccupation || '',
       post.postDate || '',
       post.likeCount || '',
-      post.commentCount || ''
+      post.commentCount || '',
+      false, // saved status - default to false for new posts
+      searchFacets,
+      source
     );
     
     if (id !== null) {
+      await savePostDetails(id, post, searchDate);
       newPostsAdded++;
+    } else if (refreshExisting && await refreshScrapedPost(
+      post.link,
+      post.description,
+      post.profileImage || '',
+      post.authorName || '',
+      post.authorOccupation || '',
+      post.postDate || '',
+      post.likeCount || '',
+      post.commentCount || '',
+      searchDate
+    )) {
+      const existingId = await getPostIdByLink(post.link);
+      if (existingId !== null) {
+        await savePostDetails(existingId, post, searchDate);
+      }
+      existingRefreshed++;
     } else {
       // insertPost returns null for duplicates (UNIQUE constraint)
       duplicatesSkipped++;
@@ -56,6 +130,42 @@ export const saveSearchResourceToDb = async (
   return {
     totalPosts,
     newPostsAdded,
-    duplicatesSkipped
+    duplicatesSkipped,
+    existingRefreshed
   };
 };
+
+/**
+ * Record a search run and link it to every stored post it found
+ * Call after the run's posts were saved, so new posts get linked too. Posts skipped as
+ * already known, or already found by an earlier query of the batch, are linked as well.
+ * Returns the run's ID
+ */
+export const saveSearchRunToDb = async (
+  keywords: string,
+  facets: SearchFacets | undefined,
+  response: SearchResponse,
+  saveResult: DbSaveResult | null,
+  error: string = ''
+): Promise<number> => {
+  // Ensure resource directories exist before database creation
+  ensureResourceDirectories();
+  
+  const { stats } = response;
+  const runId = await insertSearchRun({
+    query: keywords,
+    facets: facets ? JSON.stringify(facets) : '',
+    extraction_mode: stats.extractionMode,
+    started_at: stats.startedAt,
+    finished_at: new Date(Date.parse(stats.startedAt) + stats.durationMs).toISOString(),
+    duration_ms: stats.durationMs,
+    urns_found: stats.urnsFound,
+    new_posts: saveResult?.newPostsAdded ?? 0,
+    duplicates: stats.skippedKnown + stats.skippedDuplicate + (saveResult?.duplicatesSkipped ?? 0),
+    failures: response.failures.length,
+    error
+  });
+  
+  await linkSearchRunPosts(runId, response.foundLinks);
+  return runId;
+};
@@ -0,0 +1,28 @@
+import fs from 'fs';
+import path from 'path';
+import { getScreenshotsPath } from './paths.js';
+
+/**
+ * File name of a post's screenshot, from its URN (safe on every platform)
+ */
+export const getScreenshotFilename = (urn: string): string => {
+  return `${urn.replace(/[^a-zA-Z0-9_-]+/g, '_')}.png`;
+};
+
+/**
+ * Remove screenshot files from the screenshots directory (missing files are ignored)
+ */
+export const deleteScreenshotFiles = (filenames: string[]): void => {
+  const screenshotsDir = getScreenshotsPath();
+  
+  for (const filename of filenames) {
+    // Only plain file names, never a path out of the screenshots directory
+    if (!filename || path.basename(filename) !== filename) continue;
+    
+    try {
+      fs.unlinkSync(path.join(screenshotsDir, filename));
+    } catch (_) {
+      // Already gone
+    }
+  }
+};